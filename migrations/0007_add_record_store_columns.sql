@@ -0,0 +1,20 @@
+-- Columns used by the D1 record store (RECORD_STORE = "d1").
+-- `record` holds the full StoredRecord as JSON; the other columns mirror the fields
+-- that are filtered or sorted on.
+ALTER TABLE PageSpeedInsightsTable
+ADD COLUMN processingStartedAt INTEGER;
+
+ALTER TABLE PageSpeedInsightsTable
+ADD COLUMN optionsKey TEXT NOT NULL DEFAULT '';
+
+ALTER TABLE PageSpeedInsightsTable
+ADD COLUMN record TEXT;
+
+-- Latest report per URL and options, and URL history newest first
+CREATE INDEX IF NOT EXISTS idx_url_date ON PageSpeedInsightsTable(url, date);
+
+CREATE INDEX IF NOT EXISTS idx_date ON PageSpeedInsightsTable(date);
+
+-- Stuck-report sweep
+CREATE INDEX IF NOT EXISTS idx_status_processingStartedAt
+ON PageSpeedInsightsTable(status, processingStartedAt);
@@ -9,18 +9,287 @@ export const PAGESPEED_CATEGORIES = [
   "SEO",
 ] as const;
 
+/** Lighthouse audit ids for the lab metrics we report on */
+export const LAB_METRIC_AUDITS = {
+  LCP: "largest-contentful-paint",
+  CLS: "cumulative-layout-shift",
+  TBT: "total-blocking-time",
+  FCP: "first-contentful-paint",
+  SI: "speed-index",
+} as const;
+
+/**
+ * CrUX metrics reported by /field: PSI loadingExperience metric name, the lab metric it
+ * is compared with (null when there is no lab equivalent), and the Core Web Vitals
+ * thresholds (good up to the first, poor from the second). CLS is unitless.
+ */
+export const FIELD_METRICS = {
+  LCP: { cruxName: "LARGEST_CONTENTFUL_PAINT_MS", labMetric: "LCP", thresholds: [2500, 4000] },
+  INP: { cruxName: "INTERACTION_TO_NEXT_PAINT", labMetric: null, thresholds: [200, 500] },
+  CLS: { cruxName: "CUMULATIVE_LAYOUT_SHIFT_SCORE", labMetric: "CLS", thresholds: [0.1, 0.25] },
+  FCP: { cruxName: "FIRST_CONTENTFUL_PAINT_MS", labMetric: "FCP", thresholds: [1800, 3000] },
+  TTFB: { cruxName: "EXPERIMENTAL_TIME_TO_FIRST_BYTE", labMetric: null, thresholds: [800, 1800] },
+} as const;
+
+/** Lighthouse treats an audit score at or above this as passing */
+export const AUDIT_PASS_THRESHOLD = 0.9;
+
+/** Audits with these display modes have no meaningful pass/fail state */
+export const UNSCORED_DISPLAY_MODES: ReadonlySet<string> = new Set([
+  "notApplicable",
+  "informative",
+  "manual",
+  "error",
+]);
+
+/** Default for the PAGESPEED_API_BASE_URL var */
 export const PAGESPEED_API_BASE_URL =
   "https://www.googleapis.com/pagespeedonline/v5/runPagespeed";
 
+/** Attempts per form factor, including the first request */
+export const PAGESPEED_MAX_ATTEMPTS = 3;
+
+export const PAGESPEED_RETRY_BASE_DELAY_MS = 1_000;
+
+/** A Retry-After longer than this is left to the queue retry instead of waiting in-process */
+export const PAGESPEED_MAX_RETRY_DELAY_MS = 30_000;
+
+/** Random extra wait added to a Retry-After so clients do not retry in lockstep */
+export const PAGESPEED_RETRY_JITTER_MS = 1_000;
+
+/** Lighthouse runs routinely take 20-60s */
+export const PAGESPEED_TIMEOUT_MS = 120_000;
+
+/**
+ * Longest one fetchPageSpeedData call can take: every attempt times out and each retry
+ * waits the longest delay. Form factors are fetched in parallel, so this bounds a run's fetching.
+ */
+export const PAGESPEED_MAX_FETCH_MS =
+  PAGESPEED_MAX_ATTEMPTS * PAGESPEED_TIMEOUT_MS +
+  (PAGESPEED_MAX_ATTEMPTS - 1) * (PAGESPEED_MAX_RETRY_DELAY_MS + PAGESPEED_RETRY_JITTER_MS);
+
+/** Allowance for everything in a run besides fetching (R2 and KV writes, budgets) */
+export const REPORT_RUN_OVERHEAD_MS = 60_000;
+
+/** Worst-case duration of one report run */
+export const REPORT_RUN_MAX_MS = PAGESPEED_MAX_FETCH_MS + REPORT_RUN_OVERHEAD_MS;
+
 export const WORKER_ROUTES = {
   ROOT: "/",
   DEBUG_LIST: "/debug/list",
   DELETE_OLD: "/delete-old",
   GET_BY_PUBLIC_ID: "/get-by-id",
+  HISTORY: "/history",
+  COMPARE: "/compare",
+  SUMMARY: "/summary",
+  BUDGETS: "/budgets",
+  WEBHOOKS: "/webhooks",
+  WEBHOOK_DELIVERIES: "/webhooks/deliveries",
+  TOKENS: "/tokens",
+  USAGE: "/usage",
+  BATCH: "/batch",
+  MONITORS: "/monitors",
+  REPORT_PAGE: "/report",
+  REPORT_SHARE: "/report/share",
+  RECORDS: "/records",
+  METRICS: "/metrics",
+  EXPORT: "/export",
+  SWEEP_ORPHANS: "/sweep-orphans",
+  EVENTS: "/events",
+  FIELD: "/field",
+  RAW: "/raw",
 } as const;
 
+export const API_SCOPES = ["report:create", "report:read", "admin"] as const;
+
+type ApiScopeName = (typeof API_SCOPES)[number];
+
+/**
+ * Scope a bearer token needs for each route, or per HTTP method; admin satisfies every scope
+ */
+export const ROUTE_SCOPES: Record<string, ApiScopeName | Record<string, ApiScopeName>> = {
+  [WORKER_ROUTES.ROOT]: "report:create",
+  [WORKER_ROUTES.GET_BY_PUBLIC_ID]: "report:read",
+  [WORKER_ROUTES.HISTORY]: "report:read",
+  [WORKER_ROUTES.COMPARE]: "report:read",
+  [WORKER_ROUTES.SUMMARY]: "report:read",
+  [WORKER_ROUTES.DEBUG_LIST]: "admin",
+  [WORKER_ROUTES.DELETE_OLD]: "admin",
+  [WORKER_ROUTES.SWEEP_ORPHANS]: "admin",
+  [WORKER_ROUTES.BUDGETS]: "admin",
+  [WORKER_ROUTES.WEBHOOKS]: "admin",
+  [WORKER_ROUTES.WEBHOOK_DELIVERIES]: "admin",
+  [WORKER_ROUTES.TOKENS]: "admin",
+  [WORKER_ROUTES.MONITORS]: "admin",
+  // Any client may see its own usage; admin may see every client's
+  [WORKER_ROUTES.USAGE]: "report:create",
+  [WORKER_ROUTES.BATCH]: { GET: "report:read", POST: "report:create" },
+  [WORKER_ROUTES.RECORDS]: "report:read",
+  [WORKER_ROUTES.EVENTS]: "report:read",
+  [WORKER_ROUTES.FIELD]: "report:read",
+  [WORKER_ROUTES.RAW]: "report:read",
+  [WORKER_ROUTES.METRICS]: "report:read",
+  [WORKER_ROUTES.EXPORT]: "report:read",
+  // A share link (?share=) also opens REPORT_PAGE; see handleReportPage
+  [WORKER_ROUTES.REPORT_PAGE]: "report:read",
+  [WORKER_ROUTES.REPORT_SHARE]: "report:read",
+};
+
+export const API_TOKEN_PREFIX = "wpr_";
+
+export const HISTORY_PAGE_SIZE_DEFAULT = 20;
+
+export const HISTORY_PAGE_SIZE_MAX = 100;
+
+export const RECORDS_PAGE_SIZE_DEFAULT = 50;
+
+export const RECORDS_PAGE_SIZE_MAX = 200;
+
+/** Pending and processing report pages reload themselves this often */
+export const REPORT_PAGE_REFRESH_SECONDS = 10;
+
+/** How long a report page share link stays valid */
+export const REPORT_SHARE_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+/** Browser cache lifetime for report pages of finished reports */
+export const REPORT_PAGE_CACHE_SECONDS = 300;
+
+/** Most opportunities and diagnostics listed per form factor on the report page */
+export const REPORT_PAGE_MAX_AUDITS = 10;
+
+export const OPENMETRICS_CONTENT_TYPE =
+  "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+/** Status for GET_BY_PUBLIC_ID with failOnBudget=true when a budget is violated */
+export const BUDGET_FAILED_STATUS = 422;
+
+/** Default for ROOT's ?maxAge=: reuse a report for the same URL and options this recent */
 export const CACHE_DURATION_MS = 3_600_000; // 1 hour
 
+/**
+ * Cache-Control max-age for finished reports, and how long GET_BY_PUBLIC_ID keeps them in
+ * the Workers Cache API. Bounded because results in R2 expire after RESULTS_EXPIRY_DAYS.
+ */
+export const REPORT_CACHE_MAX_AGE_SECONDS = 86_400;
+
 export const RESULTS_EXPIRY_DAYS = 3;
 
 export const RESULTS_BUCKET_PREFIX = "results/";
+
+/** Results are written before their record is updated, so the orphan sweep skips newer objects */
+export const ORPHAN_SWEEP_GRACE_MS = 60 * 60 * 1000; // 1 hour
+
+/** Records older than this are removed by the scheduled cleanup */
+export const RECORD_EXPIRY_DAYS = 10;
+
+/** Upper bound for ROOT's ?maxAge= (seconds); older records are deleted anyway */
+export const REPORT_MAX_AGE_LIMIT_SECONDS = RECORD_EXPIRY_DAYS * 24 * 60 * 60;
+
+/**
+ * A record processing for longer than any run can take is stuck; a healthy run is never
+ * requeued by the stuck sweep
+ */
+export const STUCK_PROCESSING_THRESHOLD_MS = REPORT_RUN_MAX_MS;
+
+/** A run lease outlasts the longest run, so a running report is never re-leased */
+export const REPORT_LEASE_TTL_MS = REPORT_RUN_MAX_MS;
+
+/** Comment lines sent on open /events streams so proxies do not close them as idle */
+export const REPORT_EVENTS_HEARTBEAT_MS = 15_000;
+
+/** SSE retry hint: how long an EventSource waits before reconnecting */
+export const REPORT_EVENTS_RETRY_MS = 5_000;
+
+/** Progress events the coordinator keeps for replay to late subscribers */
+export const REPORT_EVENTS_MAX_LOG = 50;
+
+/** Cron expressions; must match [triggers] crons in wrangler.toml */
+export const CRON_SCHEDULES = {
+  STUCK_SWEEP: "*/5 * * * *",
+  CLEANUP: "0 3 * * *",
+} as const;
+
+/** Queue names; must match [[queues.consumers]] in wrangler.toml */
+export const REPORT_QUEUE_NAME = "report-jobs";
+
+export const REPORT_DEAD_LETTER_QUEUE_NAME = "report-jobs-dlq";
+
+/** max_retries + 1; the last attempt marks the record failed instead of retrying */
+export const REPORT_QUEUE_MAX_ATTEMPTS = 4;
+
+export const REPORT_QUEUE_RETRY_BASE_DELAY_SECONDS = 30;
+
+/**
+ * Longest a queued report can take through every queue attempt: each run takes as long
+ * as any run can and each retry waits its full backoff
+ */
+export const REPORT_JOB_MAX_MS =
+  REPORT_QUEUE_MAX_ATTEMPTS * REPORT_RUN_MAX_MS +
+  REPORT_QUEUE_RETRY_BASE_DELAY_SECONDS * (2 ** (REPORT_QUEUE_MAX_ATTEMPTS - 1) - 1) * 1000;
+
+/** Most messages Queue.sendBatch accepts in one call */
+export const REPORT_QUEUE_SEND_BATCH_MAX = 100;
+
+export const SCHEDULED_RUN_SUMMARY_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+/** Delay before each webhook retry; delivery fails after the last one */
+export const WEBHOOK_RETRY_DELAYS_MS = [
+  60_000, // 1 minute
+  5 * 60_000, // 5 minutes
+  30 * 60_000, // 30 minutes
+  2 * 60 * 60_000, // 2 hours
+];
+
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export const WEBHOOK_DELIVERY_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+/** Defaults when the RATE_LIMIT_* vars are unset or invalid */
+export const DEFAULT_RATE_LIMITS = {
+  REPORTS_PER_MINUTE: 10,
+  REPORTS_PER_DAY: 500,
+  TARGET_REAUDITS_PER_HOUR: 6,
+} as const;
+
+/** Name of the one USAGE_COUNTER instance that holds every rate-limit counter */
+export const USAGE_COUNTER_NAME = "usage";
+
+/** Query params stripped from target URLs when TRACKING_PARAMS is unset; a trailing * matches a prefix */
+export const DEFAULT_TRACKING_PARAMS = [
+  "utm_*",
+  "gclid",
+  "dclid",
+  "fbclid",
+  "msclkid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "yclid",
+];
+
+/**
+ * Longest canonical target URL once percent-encoded. URLs end up (encoded) in KV keys,
+ * which are capped at 512 bytes; this leaves room for the longest prefix and suffix.
+ */
+export const MAX_TARGET_URL_KEY_LENGTH = 400;
+
+/** Most pages one batch may create; sitemap URLs beyond this are reported as skipped */
+export const BATCH_MAX_URLS = 200;
+
+/** Most sitemap documents fetched per batch (the index plus nested sitemaps) */
+export const SITEMAP_MAX_FETCHES = 10;
+
+export const SITEMAP_MAX_BYTES = 10 * 1024 * 1024; // 10 MB
+
+export const SITEMAP_TIMEOUT_MS = 15_000;
+
+/** Interval between monitor runs */
+export const MONITOR_FREQUENCY_MS = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+} as const;
+
+/** Consecutive failed runs before a monitor pauses itself, unless the monitor sets its own */
+export const MONITOR_MAX_CONSECUTIVE_FAILURES_DEFAULT = 3;
@@ -0,0 +1,211 @@
+/**
+ * Handler for batch and sitemap report submission
+ *
+ * - POST: create reports from { urls: string[] } or { sitemapUrl: string }.
+ *   ?strategy=, ?categories= and ?locale= apply to every page.
+ * - GET: progress and, once finished, a site-level score rollup for ?id=
+ */
+
+import type { AuthContext, BatchRecord } from "../types";
+import { BATCH_MAX_URLS } from "../constants";
+import { createBatch, getBatchProgress, prepareBatchUrls } from "../services/batch";
+import { collectSitemapUrls } from "../services/sitemap";
+import { parseAuditOptions } from "../services/audit-options";
+import { consumeBatchQuota, rateLimitHeaders, refundBatchQuota } from "../services/rate-limit";
+import { normalizeTargetUrl, trackingParamsFromEnv } from "../services/url-normalization";
+import { getBatch } from "../services/storage";
+
+async function handleCreateBatch(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  auth: AuthContext
+): Promise<Response> {
+  const url = new URL(request.url);
+
+  const parsedOptions = parseAuditOptions(url.searchParams);
+  if ("error" in parsedOptions) {
+    return new Response(JSON.stringify({ error: parsedOptions.error }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const trackingParams = trackingParamsFromEnv(env);
+  let candidates: string[];
+  let source: BatchRecord["source"];
+  const notes: string[] = [];
+
+  if (Array.isArray(body?.urls)) {
+    if (body.urls.some((u: unknown) => typeof u !== "string")) {
+      return new Response(JSON.stringify({ error: "urls must be an array of strings" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (body.urls.length > BATCH_MAX_URLS) {
+      return new Response(
+        JSON.stringify({ error: `A batch may contain at most ${BATCH_MAX_URLS} URLs` }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+    candidates = body.urls;
+    source = { type: "urls" };
+  } else if (typeof body?.sitemapUrl === "string") {
+    const sitemap = normalizeTargetUrl(body.sitemapUrl, trackingParams, "sitemapUrl");
+    if ("error" in sitemap) {
+      return new Response(JSON.stringify({ error: sitemap.error }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const collected = await collectSitemapUrls(sitemap.url, BATCH_MAX_URLS);
+      candidates = collected.urls;
+      notes.push(...collected.errors);
+      if (collected.truncated) {
+        notes.push(`Sitemap truncated to ${BATCH_MAX_URLS} URLs`);
+      }
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: `Could not read sitemap: ${error instanceof Error ? error.message : String(error)}`,
+        }),
+        {
+          status: 422,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+    source = { type: "sitemap", sitemapUrl: sitemap.url };
+  } else {
+    return new Response(JSON.stringify({ error: "Body must contain urls or sitemapUrl" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { urls, skipped } = prepareBatchUrls(candidates, trackingParams);
+  if (urls.length === 0) {
+    return new Response(JSON.stringify({ error: "No valid URLs to audit", skipped, notes }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const quota = await consumeBatchQuota(auth.tokenId, urls, env);
+  if (!quota.allowed) {
+    const errors = {
+      client_minute: "Per-minute report limit reached",
+      client_day: "Daily report quota too low for this batch",
+      target_hour: "Every URL in this batch was audited too often in the past hour",
+    };
+    return new Response(
+      JSON.stringify({
+        error: errors[quota.reason!],
+        reason: quota.reason,
+        requested: urls.length,
+        remaining: Math.max(0, quota.window.limit - quota.window.used),
+      }),
+      {
+        status: 429,
+        headers: { "Content-Type": "application/json", ...rateLimitHeaders(quota) },
+      }
+    );
+  }
+  for (const { url: limited, resetAt } of quota.targetLimited) {
+    skipped.push({
+      url: limited,
+      reason: `Audited too often in the past hour; retry after ${new Date(resetAt).toISOString()}`,
+    });
+  }
+
+  const { batch, unsent } = await createBatch(
+    quota.counted,
+    skipped,
+    source,
+    parsedOptions.options,
+    auth.tokenId,
+    env,
+    ctx
+  );
+  if (unsent.length > 0) {
+    await refundBatchQuota(auth.tokenId, unsent, env);
+  }
+  if (unsent.length === quota.counted.length) {
+    return new Response(JSON.stringify({ error: "Could not queue the batch; try again later" }), {
+      status: 503,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(
+    JSON.stringify({
+      id: batch.id,
+      total: batch.publicIds.length,
+      publicIds: batch.publicIds,
+      skipped: batch.skipped,
+      notes,
+    }),
+    {
+      status: 201,
+      headers: { "Content-Type": "application/json", ...rateLimitHeaders(quota) },
+    }
+  );
+}
+
+/**
+ * Handles the batch route
+ */
+export async function handleBatch(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  auth: AuthContext
+): Promise<Response> {
+  if (request.method === "POST") {
+    return handleCreateBatch(request, env, ctx, auth);
+  }
+
+  if (request.method === "GET") {
+    const id = new URL(request.url).searchParams.get("id");
+    if (!id) {
+      return new Response(JSON.stringify({ error: "Missing id parameter" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const batch = await getBatch(id, env);
+    if (!batch) {
+      return new Response(JSON.stringify({ error: "Batch not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(await getBatchProgress(batch, env)), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(JSON.stringify({ error: "Method not allowed" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json", Allow: "GET, POST" },
+  });
+}
@@ -0,0 +1,100 @@
+/**
+ * Handler for managing performance budgets
+ *
+ * - GET: list budgets, or one budget with ?id=
+ * - POST: create a budget, or replace one when the body carries an existing id
+ * - DELETE: delete the budget given by ?id=
+ */
+
+import type { PerformanceBudget } from "../types";
+import { parseBudgetInput } from "../services/budgets";
+import { deleteBudget, getBudget, listBudgets, putBudget } from "../services/storage";
+import { trackingParamsFromEnv } from "../services/url-normalization";
+
+/**
+ * Handles the budgets route
+ */
+export async function handleBudgets(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+
+  const id = url.searchParams.get("id");
+
+  if (request.method === "GET") {
+    if (!id) {
+      return new Response(JSON.stringify({ budgets: await listBudgets(env) }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const budget = await getBudget(id, env);
+    if (!budget) {
+      return new Response(JSON.stringify({ error: "Budget not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    return new Response(JSON.stringify(budget), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (request.method === "POST") {
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const parsed = parseBudgetInput(body, trackingParamsFromEnv(env));
+    if ("error" in parsed) {
+      return new Response(JSON.stringify({ error: parsed.error }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const existing = typeof body.id === "string" ? await getBudget(body.id, env) : null;
+    const now = Date.now();
+    const budget: PerformanceBudget = {
+      ...parsed.budget,
+      id: existing?.id ?? crypto.randomUUID(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await putBudget(budget, env);
+
+    return new Response(JSON.stringify(budget), {
+      status: existing ? 200 : 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (request.method === "DELETE") {
+    if (!id) {
+      return new Response(JSON.stringify({ error: "Missing id parameter" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const deleted = await deleteBudget(id, env);
+    return new Response(JSON.stringify({ success: deleted, id }), {
+      status: deleted ? 200 : 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(JSON.stringify({ error: "Method not allowed" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json", Allow: "GET, POST, DELETE" },
+  });
+}
@@ -0,0 +1,65 @@
+/**
+ * Handler for comparing two reports
+ */
+
+import { getRecordByPublicId } from "../services/storage";
+import { compareReports } from "../services/compare";
+
+/**
+ * Handles the compare route: per-form-factor deltas between base and head reports
+ */
+export async function handleCompare(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+  const baseId = url.searchParams.get("base");
+  const headId = url.searchParams.get("head");
+
+  if (!baseId || !headId) {
+    return new Response(
+      JSON.stringify({ error: "Missing base or head parameter" }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const [base, head] = await Promise.all([
+    getRecordByPublicId(baseId, env, { includeRaw: true }),
+    getRecordByPublicId(headId, env, { includeRaw: true }),
+  ]);
+
+  if (!base || !head) {
+    return new Response(
+      JSON.stringify({
+        error: "Record not found",
+        missing: [!base && baseId, !head && headId].filter(Boolean),
+      }),
+      {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const incomplete = [base, head].filter((r) => r.status !== "completed");
+  if (incomplete.length > 0) {
+    return new Response(
+      JSON.stringify({
+        error: "Both reports must be completed before they can be compared",
+        records: incomplete.map((r) => ({ publicId: r.publicId, status: r.status })),
+      }),
+      {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  return new Response(JSON.stringify(compareReports(base, head)), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -2,10 +2,11 @@
  * Handler for deleting old records
  */
 
+import { RECORD_EXPIRY_DAYS } from "../constants";
 import { deleteOldRecordsFromStorage } from "../services/storage";
 
 /**
- * Handles the delete old records route
+ * Handles the delete old records route; ?dryRun=true lists what would be removed
  */
 export async function handleDeleteOldRecords(
   request: Request,
@@ -13,7 +14,8 @@ export async function handleDeleteOldRecords(
 ): Promise<Response> {
   const url = new URL(request.url);
   const daysParam = url.searchParams.get("days");
-  const daysOld = daysParam ? +(daysParam) : 10;
+  const daysOld = daysParam ? +(daysParam) : RECORD_EXPIRY_DAYS;
+  const dryRun = url.searchParams.get("dryRun") === "true";
 
   if (isNaN(daysOld) || daysOld < 0) {
     return new Response(
@@ -26,7 +28,7 @@ export async function handleDeleteOldRecords(
   }
 
   try {
-    const result = await deleteOldRecordsFromStorage(daysOld, env);
+    const result = await deleteOldRecordsFromStorage(daysOld, env, { dryRun });
     return new Response(JSON.stringify(result), {
       headers: { "Content-Type": "application/json" },
     });
@@ -0,0 +1,118 @@
+/**
+ * Handler for starting due monitor runs
+ */
+
+import type { Monitor } from "../types";
+import { REPORT_JOB_MAX_MS } from "../constants";
+import {
+  createPendingRecord,
+  getMonitor,
+  getStoredRecord,
+  listDueMonitorIds,
+  putMonitor,
+  updateRecord,
+} from "../services/storage";
+import { enqueueReportJob } from "../services/report-queue";
+import { resetReportStatus } from "../services/report-lease";
+import { formFactorLabel } from "../services/audit-options";
+import { nextMonitorRunAt, recordMonitorOutcome } from "../services/monitors";
+
+/**
+ * Creates and enqueues a report for every active monitor that is due.
+ * A monitor whose previous run is still pending or processing is skipped until its next run,
+ * unless it was created more than REPORT_JOB_MAX_MS ago: it is then marked failed and
+ * counted as a failed run (which may pause the monitor), and a new run starts.
+ */
+export async function handleDueMonitors(
+  env: Env,
+  ctx: ExecutionContext
+): Promise<{ due: number; started: number; skipped: number; failed: number }> {
+  const now = Date.now();
+  const dueIds = await listDueMonitorIds(now, env);
+  let started = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const id of dueIds) {
+    try {
+      let monitor = await getMonitor(id, env);
+      if (!monitor || monitor.status !== "active" || monitor.nextRunAt > now) {
+        continue;
+      }
+
+      const previous = monitor.lastPublicId
+        ? await getStoredRecord(monitor.lastPublicId, env)
+        : null;
+      let previousRunning =
+        previous?.status === "pending" || previous?.status === "processing";
+
+      // A run unfinished after every queue attempt could have finished is lost. It is failed
+      // here so that nothing can finish it later and report a second outcome.
+      if (
+        previous &&
+        previousRunning &&
+        now - previous.date > REPORT_JOB_MAX_MS &&
+        (await resetReportStatus(previous, "failed", env))
+      ) {
+        console.log(`Monitor ${id}: previous run ${previous.publicId} is stuck, marking it failed`);
+        const error = "Report did not finish";
+        await updateRecord(
+          { publicId: previous.publicId, status: "failed", data: { error }, dataUrl: "", error },
+          env
+        );
+        await recordMonitorOutcome(monitor.id, previous.publicId, "failed", env);
+        monitor = await getMonitor(id, env);
+        if (!monitor) continue;
+        previousRunning = false;
+      }
+
+      const updated: Monitor = {
+        ...monitor,
+        nextRunAt: nextMonitorRunAt(monitor, now),
+        updatedAt: now,
+      };
+
+      if (previousRunning) {
+        console.log(`Monitor ${id}: previous run ${monitor.lastPublicId} unfinished, skipping`);
+        await putMonitor(updated, env);
+        skipped++;
+        continue;
+      }
+
+      // Counting the stuck run may have paused the monitor
+      if (monitor.status !== "active") {
+        skipped++;
+        continue;
+      }
+
+      const { publicId } = await createPendingRecord(
+        {
+          requestUrl: monitor.url,
+          formFactor: formFactorLabel(monitor.options),
+          status: "pending",
+          data: {},
+          options: monitor.options,
+          monitorId: monitor.id,
+        },
+        env
+      );
+      await enqueueReportJob(publicId, env, ctx);
+
+      await putMonitor(
+        {
+          ...updated,
+          lastRunAt: now,
+          lastPublicId: publicId,
+          lastRunStatus: "pending",
+        },
+        env
+      );
+      started++;
+    } catch (error) {
+      console.error(`Error running monitor ${id}:`, error);
+      failed++;
+    }
+  }
+
+  return { due: dueIds.length, started, skipped, failed };
+}
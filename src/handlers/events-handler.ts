@@ -0,0 +1,96 @@
+/**
+ * Handler for live report progress (Server-Sent Events)
+ */
+
+import type { RecordStatus } from "../types";
+import { REPORT_EVENTS_RETRY_MS } from "../constants";
+import { getStoredRecord } from "../services/storage";
+import { isFinalStatus } from "../services/record-status";
+import {
+  encodeServerSentEvent,
+  finalProgressEvent,
+  RECORD_FINAL_EVENT_ID,
+  SSE_HEADERS,
+} from "../services/report-events";
+
+/**
+ * Opens the coordinator's stream for a report, replaying events after Last-Event-ID
+ */
+function coordinatorStream(
+  publicId: string,
+  status: RecordStatus,
+  lastEventId: string | null,
+  env: Env
+): Promise<Response> {
+  const coordinator = env.REPORT_COORDINATOR.get(env.REPORT_COORDINATOR.idFromName(publicId));
+  const streamUrl = new URL("https://report-coordinator/events");
+  streamUrl.searchParams.set("id", publicId);
+  streamUrl.searchParams.set("status", status);
+
+  return coordinator.fetch(streamUrl.toString(), {
+    headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+  });
+}
+
+/**
+ * Handles the events route: streams progress for ?id= until the report completes or fails.
+ * A finished report gets its final event at once. A reconnect (Last-Event-ID) gets 204, so
+ * EventSource stops retrying, once the client has seen the final event; one that dropped
+ * before it gets the events it missed. Without the REPORT_COORDINATOR binding the current
+ * status is sent and the stream closes, leaving EventSource to reconnect (i.e. poll).
+ */
+export async function handleEvents(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const publicId = url.searchParams.get("id");
+
+  if (!publicId) {
+    return new Response(JSON.stringify({ error: "Missing id parameter" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const record = await getStoredRecord(publicId, env);
+  if (!record) {
+    return new Response(JSON.stringify({ error: "Record not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const status = record.status as RecordStatus;
+  const lastEventId = request.headers.get("Last-Event-ID");
+
+  if (isFinalStatus(status)) {
+    if (lastEventId) {
+      const seen = Number(lastEventId) || 0;
+      const finalId = env.REPORT_COORDINATOR
+        ? await env.REPORT_COORDINATOR.get(env.REPORT_COORDINATOR.idFromName(publicId)).finalEventId()
+        : null;
+      // The coordinator replays what was missed, final event included, then closes
+      if (finalId !== null && seen < finalId) {
+        return coordinatorStream(publicId, status, lastEventId, env);
+      }
+      if (seen >= (finalId ?? RECORD_FINAL_EVENT_ID)) {
+        return new Response(null, { status: 204 });
+      }
+    }
+    return new Response(encodeServerSentEvent(finalProgressEvent(record), RECORD_FINAL_EVENT_ID), {
+      headers: SSE_HEADERS,
+    });
+  }
+
+  if (!env.REPORT_COORDINATOR) {
+    const event = encodeServerSentEvent({
+      type: "status",
+      publicId,
+      status: status === "processing" ? "processing" : "pending",
+      at: Date.now(),
+    });
+    return new Response(`retry: ${REPORT_EVENTS_RETRY_MS}\n\n${event}`, {
+      headers: SSE_HEADERS,
+    });
+  }
+
+  return coordinatorStream(publicId, status, lastEventId, env);
+}
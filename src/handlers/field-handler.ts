@@ -0,0 +1,36 @@
+/**
+ * Handler for CrUX field data
+ */
+
+import { getFieldDataByPublicId } from "../services/storage";
+import { reportJsonResponse, serializeReport } from "../services/http-cache";
+
+/**
+ * Handles the field route: per-form-factor CrUX data for a report, with origin data,
+ * whether PSI fell back to the origin, and where lab and field ratings disagree
+ */
+export async function handleField(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+  const publicId = url.searchParams.get("id");
+
+  if (!publicId) {
+    return new Response(JSON.stringify({ error: "Missing id parameter" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const fieldData = await getFieldDataByPublicId(publicId, env);
+
+  if (!fieldData) {
+    return new Response(JSON.stringify({ error: "Record not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return reportJsonResponse(request, await serializeReport(fieldData, fieldData.status));
+}
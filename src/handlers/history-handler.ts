@@ -0,0 +1,57 @@
+/**
+ * Handler for per-URL report history
+ */
+
+import { HISTORY_PAGE_SIZE_DEFAULT, HISTORY_PAGE_SIZE_MAX } from "../constants";
+import { getHistoryByUrl } from "../services/storage";
+import { normalizeTargetUrl, trackingParamsFromEnv } from "../services/url-normalization";
+
+/**
+ * Handles the history route: paginated past runs for a URL, newest first
+ */
+export async function handleHistory(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+  const rawUrl = url.searchParams.get("url");
+
+  if (!rawUrl) {
+    return new Response(JSON.stringify({ error: "Missing url parameter" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const normalized = normalizeTargetUrl(rawUrl, trackingParamsFromEnv(env));
+  if ("error" in normalized) {
+    return new Response(JSON.stringify({ error: normalized.error }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const requestUrl = normalized.url;
+
+  const limitParam = url.searchParams.get("limit");
+  const limit = limitParam ? +limitParam : HISTORY_PAGE_SIZE_DEFAULT;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > HISTORY_PAGE_SIZE_MAX) {
+    return new Response(
+      JSON.stringify({
+        error: `Invalid limit parameter. Must be an integer between 1 and ${HISTORY_PAGE_SIZE_MAX}.`,
+      }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const cursor = url.searchParams.get("cursor") ?? undefined;
+  const page = await getHistoryByUrl(requestUrl, { limit, cursor }, env);
+
+  return new Response(JSON.stringify(page), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
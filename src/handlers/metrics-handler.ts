@@ -0,0 +1,74 @@
+/**
+ * Handlers for metrics scraping and report export
+ *
+ * METRICS: OpenMetrics text for Prometheus-compatible scrapers
+ * EXPORT: CSV or NDJSON, one row per completed report per form factor, streamed
+ * Both read the summaries stored on records; no audits are run.
+ */
+
+import { OPENMETRICS_CONTENT_TYPE } from "../constants";
+import { listStoredRecords } from "../services/storage";
+import { exportLines, parseExportParams, renderOpenMetrics } from "../services/metrics-export";
+import { trackingParamsFromEnv } from "../services/url-normalization";
+
+const EXPORT_CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson",
+} as const;
+
+/**
+ * Handles the metrics route
+ */
+export async function handleMetrics(env: Env): Promise<Response> {
+  const body = renderOpenMetrics(await listStoredRecords({}, env));
+  return new Response(body, {
+    status: 200,
+    headers: { "Content-Type": OPENMETRICS_CONTENT_TYPE, "Cache-Control": "no-store" },
+  });
+}
+
+/**
+ * Handles the export route: ?format=csv|ndjson, ?from=, ?to=, ?url=, ?urlPattern=
+ */
+export async function handleExport(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+
+  const parsed = parseExportParams(url.searchParams, trackingParamsFromEnv(env));
+  if ("error" in parsed) {
+    return new Response(JSON.stringify({ error: parsed.error }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { from, to, url: exactUrl } = parsed.filter;
+  const records = await listStoredRecords({ from, to, url: exactUrl ?? undefined }, env);
+  const lines = exportLines(records, parsed.format, parsed.filter);
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const { value, done } = lines.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+    cancel() {
+      lines.return(undefined);
+    },
+  });
+
+  const filename = `pagespeed-export.${parsed.format}`;
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[parsed.format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,128 @@
+/**
+ * Handler for recurring monitors
+ *
+ * - GET: list monitors, or one monitor with ?id=
+ * - POST: create a monitor from { url, frequency, strategy?, categories?, locale?,
+ *   maxConsecutiveFailures? }, or update one when the body carries an existing id.
+ *   Setting status to "active" resumes a paused monitor and clears its failure count.
+ * - DELETE: delete the monitor given by ?id=
+ */
+
+import type { Monitor } from "../types";
+import { MONITOR_FREQUENCY_MS } from "../constants";
+import { parseMonitorInput } from "../services/monitors";
+import { trackingParamsFromEnv } from "../services/url-normalization";
+import { deleteMonitor, getMonitor, listMonitors, putMonitor } from "../services/storage";
+
+/**
+ * Handles the monitors route
+ */
+export async function handleMonitors(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+
+  const id = url.searchParams.get("id");
+
+  if (request.method === "GET") {
+    if (!id) {
+      return new Response(JSON.stringify({ monitors: await listMonitors(env) }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const monitor = await getMonitor(id, env);
+    if (!monitor) {
+      return new Response(JSON.stringify({ error: "Monitor not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    return new Response(JSON.stringify(monitor), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (request.method === "POST") {
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const existing = typeof body?.id === "string" ? await getMonitor(body.id, env) : null;
+    if (typeof body?.id === "string" && !existing) {
+      return new Response(JSON.stringify({ error: "Monitor not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const parsed = parseMonitorInput(body, trackingParamsFromEnv(env), existing);
+    if ("error" in parsed) {
+      return new Response(JSON.stringify({ error: parsed.error }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const now = Date.now();
+    const resumed = existing?.status === "paused" && parsed.input.status === "active";
+    const monitor: Monitor = {
+      consecutiveFailures: 0,
+      pausedReason: null,
+      lastRunAt: null,
+      lastPublicId: null,
+      lastRunStatus: null,
+      // A new monitor runs on the next cron tick
+      nextRunAt: now,
+      ...existing,
+      ...parsed.input,
+      id: existing?.id ?? crypto.randomUUID(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    if (resumed) {
+      monitor.consecutiveFailures = 0;
+      monitor.pausedReason = null;
+      monitor.nextRunAt = now;
+    }
+    const frequencyChanged = existing && parsed.input.frequency !== existing.frequency;
+    if (frequencyChanged && !resumed && existing.lastRunAt != null) {
+      monitor.nextRunAt = existing.lastRunAt + MONITOR_FREQUENCY_MS[monitor.frequency];
+    }
+    await putMonitor(monitor, env);
+
+    return new Response(JSON.stringify(monitor), {
+      status: existing ? 200 : 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (request.method === "DELETE") {
+    if (!id) {
+      return new Response(JSON.stringify({ error: "Missing id parameter" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const deleted = await deleteMonitor(id, env);
+    return new Response(JSON.stringify({ success: deleted, id }), {
+      status: deleted ? 200 : 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(JSON.stringify({ error: "Method not allowed" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json", Allow: "GET, POST, DELETE" },
+  });
+}
@@ -0,0 +1,32 @@
+/**
+ * Handler for the R2 orphan sweep
+ */
+
+import { sweepOrphanedResults } from "../services/storage";
+
+/**
+ * Handles the sweep orphans route: reports orphaned result objects and records with
+ * missing results; ?fix=true deletes the objects and clears the records' dataUrl
+ */
+export async function handleSweepOrphans(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+  const fix = url.searchParams.get("fix") === "true";
+
+  try {
+    const result = await sweepOrphanedResults(env, { fix });
+    return new Response(JSON.stringify(result), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+}
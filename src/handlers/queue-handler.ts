@@ -0,0 +1,80 @@
+/**
+ * Handler for Cloudflare Queues batches
+ *
+ * - REPORT_QUEUE_NAME: runs report jobs; failed runs are retried with backoff and the
+ *   last attempt marks the record failed.
+ * - REPORT_DEAD_LETTER_QUEUE_NAME: jobs whose consumer kept throwing; marks the record failed
+ *   unless it has finished or a run still holds its lease.
+ */
+
+import type { ReportJob } from "../types";
+import {
+  REPORT_DEAD_LETTER_QUEUE_NAME,
+  REPORT_QUEUE_MAX_ATTEMPTS,
+} from "../constants";
+import { processReportJob, reportJobRetryDelaySeconds } from "../services/report-queue";
+import { getStoredRecord, updateRecord } from "../services/storage";
+import { dispatchReportEvent } from "../services/webhooks";
+import { recordMonitorOutcome } from "../services/monitors";
+import { resetReportStatus } from "../services/report-lease";
+import { publishReportProgress } from "../services/report-events";
+
+async function handleDeadLetters(batch: MessageBatch<ReportJob>, env: Env): Promise<void> {
+  for (const message of batch.messages) {
+    const { publicId } = message.body;
+    try {
+      const record = await getStoredRecord(publicId, env);
+      if (record && (await resetReportStatus(record, "failed", env))) {
+        console.error(`Dead-lettered report job, marking failed: publicId=${publicId}`);
+        const error = "Report job exhausted queue retries";
+        await updateRecord(
+          { publicId, status: "failed", data: { error }, dataUrl: "" },
+          env
+        );
+        await dispatchReportEvent(
+          "report.failed",
+          { publicId, url: record.url, status: "failed", summary: null, budgetResult: null, error },
+          env
+        );
+        await publishReportProgress(
+          { type: "failed", publicId, status: "failed", summary: null, error, at: Date.now() },
+          env
+        );
+        if (record.monitorId) {
+          await recordMonitorOutcome(record.monitorId, publicId, "failed", env);
+        }
+      }
+    } catch (error) {
+      console.error(`Error handling dead-lettered job ${publicId}:`, error);
+    }
+    message.ack();
+  }
+}
+
+/**
+ * Processes a queue batch
+ */
+export async function handleQueue(
+  batch: MessageBatch<ReportJob>,
+  env: Env,
+  _ctx: ExecutionContext
+): Promise<void> {
+  if (batch.queue === REPORT_DEAD_LETTER_QUEUE_NAME) {
+    return handleDeadLetters(batch, env);
+  }
+
+  for (const message of batch.messages) {
+    const isFinalAttempt = message.attempts >= REPORT_QUEUE_MAX_ATTEMPTS;
+    try {
+      const outcome = await processReportJob(message.body, env, isFinalAttempt);
+      if (outcome === "retry") {
+        message.retry({ delaySeconds: reportJobRetryDelaySeconds(message.attempts) });
+      } else {
+        message.ack();
+      }
+    } catch (error) {
+      console.error(`Error processing report job ${message.body.publicId}:`, error);
+      message.retry({ delaySeconds: reportJobRetryDelaySeconds(message.attempts) });
+    }
+  }
+}
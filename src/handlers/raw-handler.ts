@@ -0,0 +1,157 @@
+/**
+ * Handler for raw PSI responses, streamed from R2 without parsing
+ */
+
+import type { FormFactor } from "../types";
+import { DEFAULT_AUDIT_OPTIONS } from "../services/audit-options";
+import { getStoredRecord, resultObjectStream } from "../services/storage";
+import {
+  encodedEtag,
+  matchesIfNoneMatch,
+  negotiateEncoding,
+  reportCacheControl,
+} from "../services/http-cache";
+
+/**
+ * Releases R2 bodies that will not be read
+ */
+async function cancelBodies(objects: Array<R2ObjectBody | null>): Promise<void> {
+  await Promise.all(objects.map((object) => object?.body.cancel()));
+}
+
+/**
+ * The objects' JSON bodies as one JSON array, read one object at a time; a missing object
+ * is null in its slot. Cancelling the stream cancels the bodies not read yet.
+ */
+function jsonArrayStream(objects: Array<R2ObjectBody | null>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let started = 0;
+  async function* chunks(): AsyncGenerator<Uint8Array> {
+    yield encoder.encode("[");
+    for (const [index, object] of objects.entries()) {
+      started = index + 1;
+      if (index > 0) yield encoder.encode(",");
+      if (object) yield* resultObjectStream(object);
+      else yield encoder.encode("null");
+    }
+    yield encoder.encode("]");
+  }
+
+  const iterator = chunks();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await iterator.return(undefined);
+      await cancelBodies(objects.slice(started));
+    },
+  });
+}
+
+/**
+ * Handles the raw route: ?id= and an optional ?formFactor=mobile|desktop.
+ * With a form factor the body is that form factor's PSI response; without one it is the
+ * array of responses in the report's form factor order, with null for a form factor whose
+ * results are missing (404 when the requested form factor's are). Gzip-stored objects are
+ * passed through untouched when the client accepts gzip.
+ */
+export async function handleRaw(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const publicId = url.searchParams.get("id");
+
+  if (!publicId) {
+    return new Response(JSON.stringify({ error: "Missing id parameter" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const formFactorParam = url.searchParams.get("formFactor");
+  const formFactor = formFactorParam?.toUpperCase() as FormFactor | undefined;
+  if (formFactor && !DEFAULT_AUDIT_OPTIONS.formFactors.includes(formFactor)) {
+    return new Response(JSON.stringify({ error: "Invalid formFactor parameter. Must be mobile or desktop." }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const record = await getStoredRecord(publicId, env);
+  if (!record) {
+    return new Response(JSON.stringify({ error: "Record not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  let keys: Array<string | undefined>;
+  if (record.resultKeys) {
+    const order = formFactor ? [formFactor] : (record.options ?? DEFAULT_AUDIT_OPTIONS).formFactors;
+    keys = order.map((ff) => record.resultKeys![ff]);
+  } else if (formFactor) {
+    // Older records keep every form factor in one array
+    return new Response(JSON.stringify({ error: "This report's results are stored together; omit formFactor" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  } else {
+    keys = record.dataUrl ? [record.dataUrl] : [];
+  }
+
+  const objects = await Promise.all(
+    keys.map((key) => (key ? env.RESULTS_BUCKET.get(key) : null))
+  );
+  // The array marks a missing form factor null; a requested one is simply not found
+  if (formFactor && objects[0] === null) {
+    return new Response(
+      JSON.stringify({ error: `No ${formFactor.toLowerCase()} results stored for this report` }),
+      {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  if (!objects.some((object) => object !== null)) {
+    return new Response(JSON.stringify({ error: "No results stored for this report" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const encoding = negotiateEncoding(request);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "Cache-Control": reportCacheControl(record.status),
+    Vary: "Accept-Encoding",
+  };
+
+  // One form factor, or an older record's results array: the object is the whole body,
+  // and was found (checked above)
+  const single = !!formFactor || !record.resultKeys;
+  const first = objects[0]!;
+
+  // A single form factor keeps the same R2 object, so its ETag identifies the body
+  if (formFactor) {
+    const etag = encodedEtag(first.httpEtag, encoding);
+    headers.ETag = etag;
+    if (matchesIfNoneMatch(request, etag)) {
+      await cancelBodies(objects);
+      return new Response(null, { status: 304, headers });
+    }
+  }
+
+  if (single && encoding === "gzip" && first.httpMetadata?.contentEncoding === "gzip") {
+    return new Response(first.body, {
+      headers: { ...headers, "Content-Encoding": "gzip" },
+      encodeBody: "manual",
+    });
+  }
+
+  // The runtime compresses the decompressed body to match Content-Encoding
+  if (encoding) headers["Content-Encoding"] = encoding;
+  const body = single ? resultObjectStream(first) : jsonArrayStream(objects);
+  return new Response(body, { headers });
+}
@@ -0,0 +1,60 @@
+/**
+ * Handler for the paginated record listing
+ */
+
+import type { RecordStatus } from "../types";
+import { RECORDS_PAGE_SIZE_DEFAULT, RECORDS_PAGE_SIZE_MAX } from "../constants";
+import { listRecordPage } from "../services/storage";
+import { parseDateParam, RECORD_STATUSES } from "../services/metrics-export";
+
+function badRequest(error: string): Response {
+  return new Response(JSON.stringify({ error }), {
+    status: 400,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Handles the records route: one page of records, newest first, filtered by
+ * ?status=, ?urlPrefix= and ?from=/?to= (ISO date or epoch ms)
+ */
+export async function handleRecords(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+
+  const status = url.searchParams.get("status") ?? undefined;
+  if (status && !RECORD_STATUSES.includes(status as RecordStatus)) {
+    return badRequest(`status must be one of ${RECORD_STATUSES.join(", ")}`);
+  }
+
+  const from = parseDateParam(url.searchParams.get("from"));
+  const to = parseDateParam(url.searchParams.get("to"));
+  if (from === undefined || to === undefined) {
+    return badRequest("from and to must be ISO dates or epoch milliseconds");
+  }
+
+  const limitParam = url.searchParams.get("limit");
+  const limit = limitParam ? +limitParam : RECORDS_PAGE_SIZE_DEFAULT;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > RECORDS_PAGE_SIZE_MAX) {
+    return badRequest(
+      `Invalid limit parameter. Must be an integer between 1 and ${RECORDS_PAGE_SIZE_MAX}.`
+    );
+  }
+
+  const page = await listRecordPage(
+    {
+      status: status as RecordStatus | undefined,
+      urlPrefix: url.searchParams.get("urlPrefix") ?? undefined,
+      from,
+      to,
+      limit,
+      cursor: url.searchParams.get("cursor") ?? undefined,
+    },
+    env
+  );
+
+  return new Response(JSON.stringify(page), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -1,38 +1,122 @@
 /**
  * Handler for report-related routes
  *
- * Flow (no Queue, no long waitUntil):
- * - ROOT: Create public ID and return it immediately. Report is not started here.
- * - GET_BY_PUBLIC_ID: First call runs the full report in-request and returns the result.
+ * Flow:
+ * - ROOT: Create public ID, enqueue a report job on REPORT_QUEUE and return immediately.
+ * - GET_BY_PUBLIC_ID: Returns the record's current status; never runs the report.
+ *   With ?failOnBudget=true a completed report that fails its budgets returns 422 (for CI gates).
+ * Both return metadata and summary only; ?include=raw adds the full PSI responses and
+ * ?fields= selects which fields are returned.
  */
 
-import { CACHE_DURATION_MS } from "../constants";
-import { getRecordByUrl, createPendingRecord, getRecordByPublicId } from "../services/storage";
-import { runFullReport } from "../services/report";
+import type { AuthContext } from "../types";
+import {
+  BUDGET_FAILED_STATUS,
+  CACHE_DURATION_MS,
+  REPORT_MAX_AGE_LIMIT_SECONDS,
+  WORKER_ROUTES,
+} from "../constants";
+import {
+  getRecordByUrl,
+  createPendingRecord,
+  getRecordByPublicId,
+  getStoredRecord,
+} from "../services/storage";
+import { enqueueReportJob } from "../services/report-queue";
+import {
+  parseRecordResponseShape,
+  recordResponseVariant,
+  selectRecordFields,
+} from "../services/record-fields";
+import { callbackUrlError } from "../services/webhooks";
+import { formFactorLabel, parseAuditOptions } from "../services/audit-options";
+import { consumeReportQuota, rateLimitHeaders } from "../services/rate-limit";
+import { normalizeTargetUrl, trackingParamsFromEnv } from "../services/url-normalization";
+import {
+  deleteCachedReport,
+  readCachedReport,
+  reportJsonResponse,
+  serializeReport,
+  writeCachedReport,
+} from "../services/http-cache";
 
 /**
  * Handles the root route for creating and retrieving reports.
- * Creates a public ID and returns immediately; the report runs on first GET_BY_PUBLIC_ID.
+ * Creates a public ID, enqueues the report and returns immediately.
+ * An optional ?callbackUrl= (public http(s) host; needs WEBHOOK_SIGNING_SECRET) receives a
+ * signed webhook when the new report completes or fails.
+ * ?strategy=, ?categories= and ?locale= select audit options (part of the cache key);
+ * A report for the same URL and options is reused if it is at most ?maxAge= seconds old
+ * (CACHE_DURATION_MS by default); ?force=true always starts a new one.
+ * New reports count against the client's and the target URL's rate limits (429 when exceeded).
  */
 export async function handleReportRequest(
   request: Request,
   env: Env,
-  _ctx: ExecutionContext
+  ctx: ExecutionContext,
+  auth: AuthContext
 ): Promise<Response> {
   const url = new URL(request.url);
-  const requestUrl = url.searchParams.get("url");
+  const rawUrl = url.searchParams.get("url");
 
-  if (!requestUrl) {
+  if (!rawUrl) {
     return new Response("Missing url parameter", { status: 400 });
   }
 
-  // Check for existing data within the cache duration
-  const timeThreshold = Date.now() - CACHE_DURATION_MS;
-  const existingRecord = await getRecordByUrl(requestUrl, timeThreshold, env);
+  const normalized = normalizeTargetUrl(rawUrl, trackingParamsFromEnv(env));
+  if ("error" in normalized) {
+    return new Response(JSON.stringify({ error: normalized.error }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const requestUrl = normalized.url;
+
+  const parsedOptions = parseAuditOptions(url.searchParams);
+  if ("error" in parsedOptions) {
+    return new Response(JSON.stringify({ error: parsedOptions.error }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const { options } = parsedOptions;
+
+  const shape = parseRecordResponseShape(url.searchParams);
+  if ("error" in shape) {
+    return new Response(JSON.stringify({ error: shape.error }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const force = url.searchParams.get("force") === "true";
+
+  const maxAgeParam = url.searchParams.get("maxAge");
+  const maxAgeSeconds = maxAgeParam ? +maxAgeParam : CACHE_DURATION_MS / 1000;
+  if (
+    !Number.isInteger(maxAgeSeconds) ||
+    maxAgeSeconds < 0 ||
+    maxAgeSeconds > REPORT_MAX_AGE_LIMIT_SECONDS
+  ) {
+    return new Response(
+      JSON.stringify({
+        error: `Invalid maxAge parameter. Must be an integer number of seconds between 0 and ${REPORT_MAX_AGE_LIMIT_SECONDS}.`,
+      }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  // Check for existing data no older than maxAge (unless forced)
+  const timeThreshold = Date.now() - maxAgeSeconds * 1000;
+  const existingRecord = force
+    ? null
+    : await getRecordByUrl(requestUrl, timeThreshold, env, options, shape);
 
   // Return existing completed record if available
   if (existingRecord?.status === "completed") {
-    return new Response(JSON.stringify(existingRecord), {
+    return new Response(JSON.stringify(selectRecordFields(existingRecord, shape.fields)), {
       status: 200,
       headers: { "Content-Type": "application/json" },
     });
@@ -43,46 +127,78 @@ export async function handleReportRequest(
     existingRecord &&
     (existingRecord.status === "pending" || existingRecord.status === "processing")
   ) {
-    return new Response(JSON.stringify(existingRecord), {
+    return new Response(JSON.stringify(selectRecordFields(existingRecord, shape.fields)), {
       status: 200,
       headers: { "Content-Type": "application/json" },
     });
   }
 
-  // Verify API key for creating new reports
-  const apiKey = url.searchParams.get("key");
-  if (apiKey !== env.PAGESPEED_INSIGHTS_API) {
-    return new Response("Unauthorized", { status: 401 });
+  const callbackUrl = url.searchParams.get("callbackUrl");
+  const callbackError = !callbackUrl
+    ? null
+    : !env.WEBHOOK_SIGNING_SECRET
+      ? "One-off callbacks are disabled because WEBHOOK_SIGNING_SECRET is not set."
+      : callbackUrlError(callbackUrl);
+  if (callbackError) {
+    return new Response(
+      JSON.stringify({ error: `Invalid callbackUrl parameter. ${callbackError}` }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
   }
 
-  // Create new pending record and return public ID immediately (no background work)
+  const quota = await consumeReportQuota(auth.tokenId, requestUrl, env);
+  if (!quota.allowed) {
+    return new Response(
+      JSON.stringify({
+        error: "Rate limit exceeded",
+        reason: quota.reason,
+        limit: quota.window.limit,
+        resetAt: quota.window.resetAt,
+      }),
+      {
+        status: 429,
+        headers: { "Content-Type": "application/json", ...rateLimitHeaders(quota) },
+      }
+    );
+  }
+
+  // Create new pending record, enqueue the job and return public ID immediately
   console.log("Creating new pending report for", requestUrl);
   const { publicId } = await createPendingRecord(
     {
       requestUrl,
-      formFactor: "ALL",
+      formFactor: formFactorLabel(options),
       status: "pending",
       data: {},
+      callbackUrl,
+      options,
     },
     env
   );
+  await enqueueReportJob(publicId, env, ctx);
 
   const pendingRecord = await getRecordByPublicId(publicId, env);
-  return new Response(JSON.stringify(pendingRecord), {
+  const body = pendingRecord && selectRecordFields(pendingRecord, shape.fields);
+  return new Response(JSON.stringify(body), {
     status: 200,
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...rateLimitHeaders(quota) },
   });
 }
 
-const STUCK_PROCESSING_THRESHOLD_MS = 3 * 60 * 1000; // 3 minutes
-
 /**
  * Handles requests to get report data by publicId.
- * First call for a pending (or stuck processing) id runs the full report in-request and returns the result.
+ * Only reads the record; the queue consumer moves it through pending -> processing -> completed/failed.
+ * Responses carry a strong ETag (If-None-Match gets 304); finished reports are served from the
+ * Workers Cache API after the first read, so repeat reads skip R2 and only check that the
+ * record still exists.
  */
 export async function handleGetByPublicId(
   request: Request,
-  env: Env
+  env: Env,
+  ctx: ExecutionContext
 ): Promise<Response> {
   const url = new URL(request.url);
   const publicId = url.searchParams.get("id");
@@ -94,28 +210,45 @@ export async function handleGetByPublicId(
     });
   }
 
-  let record = await getRecordByPublicId(publicId, env);
-
-  if (!record) {
-    return new Response(JSON.stringify({ error: "Record not found" }), {
-      status: 404,
+  const shape = parseRecordResponseShape(url.searchParams);
+  if ("error" in shape) {
+    return new Response(JSON.stringify({ error: shape.error }), {
+      status: 400,
       headers: { "Content-Type": "application/json" },
     });
   }
+  const variant = recordResponseVariant(shape);
 
-  const isStuck =
-    record.status === "processing" &&
-    record.processingStartedAt != null &&
-    Date.now() - record.processingStartedAt > STUCK_PROCESSING_THRESHOLD_MS;
+  let report = await readCachedReport(WORKER_ROUTES.GET_BY_PUBLIC_ID, publicId, variant);
 
-  // Run the full report in this request when pending or stuck (avoids waitUntil 30s limit)
-  if (record.status === "pending" || isStuck) {
-    await runFullReport(record.url, env, record.publicId);
-    record = (await getRecordByPublicId(publicId, env)) ?? record;
+  // Cache entries outlive deleted records; purging them would only reach this data center
+  if (report && !(await getStoredRecord(publicId, env))) {
+    ctx.waitUntil(deleteCachedReport(WORKER_ROUTES.GET_BY_PUBLIC_ID, publicId, variant));
+    report = null;
   }
 
-  return new Response(JSON.stringify(record), {
-    status: 200,
-    headers: { "Content-Type": "application/json" },
-  });
+  if (!report) {
+    const record = await getRecordByPublicId(publicId, env, shape);
+
+    if (!record) {
+      return new Response(JSON.stringify({ error: "Record not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    report = await serializeReport(
+      selectRecordFields(record, shape.fields),
+      record.status,
+      record.budgetResult?.passed === false
+    );
+    ctx.waitUntil(writeCachedReport(WORKER_ROUTES.GET_BY_PUBLIC_ID, publicId, report, variant));
+  }
+
+  const failOnBudget = url.searchParams.get("failOnBudget") === "true";
+  return reportJsonResponse(
+    request,
+    report,
+    failOnBudget && report.budgetFailed ? BUDGET_FAILED_STATUS : 200
+  );
 }
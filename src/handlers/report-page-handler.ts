@@ -0,0 +1,104 @@
+/**
+ * Handlers for the HTML report page and its share links
+ */
+
+import { REPORT_PAGE_CACHE_SECONDS, WORKER_ROUTES } from "../constants";
+import { getRecordByPublicId, getStoredRecord } from "../services/storage";
+import { renderNotFoundPage, renderReportPage } from "../services/report-page";
+import { createShareToken, verifyShareToken } from "../services/report-share";
+
+/** The page is self-contained: inline styles and a data: URI screenshot only */
+const HTML_HEADERS = {
+  "Content-Type": "text/html; charset=utf-8",
+  "Content-Security-Policy": "default-src 'none'; img-src data:; style-src 'unsafe-inline'",
+  "Referrer-Policy": "no-referrer",
+  "X-Robots-Tag": "noindex",
+};
+
+/**
+ * Handles the report page route: renders the report for ?id= as HTML.
+ * API clients use a report:read token; browsers open a share link whose ?share= is
+ * checked here (the router skips the token check for it). Never cached publicly.
+ */
+export async function handleReportPage(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+  const publicId = url.searchParams.get("id");
+
+  if (!publicId) {
+    return new Response(JSON.stringify({ error: "Missing id parameter" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const share = url.searchParams.get("share");
+  if (
+    share !== null &&
+    !(env.REPORT_SHARE_SECRET && (await verifyShareToken(publicId, share, env.REPORT_SHARE_SECRET)))
+  ) {
+    return new Response(JSON.stringify({ error: "Invalid or expired share link" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const record = await getRecordByPublicId(publicId, env, { includeRaw: true });
+  if (!record) {
+    return new Response(renderNotFoundPage(publicId), {
+      status: 404,
+      headers: { ...HTML_HEADERS, "Cache-Control": "no-store" },
+    });
+  }
+
+  // Finished reports do not change; pending ones must not be cached while they auto-refresh
+  const finished = record.status === "completed" || record.status === "failed";
+  return new Response(renderReportPage(record), {
+    status: 200,
+    headers: {
+      ...HTML_HEADERS,
+      "Cache-Control": finished ? `private, max-age=${REPORT_PAGE_CACHE_SECONDS}` : "no-store",
+    },
+  });
+}
+
+/**
+ * Handles the report share route: returns a signed link that opens the report page for
+ * ?id= in a browser until it expires
+ */
+export async function handleReportShare(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const publicId = url.searchParams.get("id");
+
+  if (!publicId) {
+    return new Response(JSON.stringify({ error: "Missing id parameter" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (!env.REPORT_SHARE_SECRET) {
+    return new Response(JSON.stringify({ error: "REPORT_SHARE_SECRET is not configured" }), {
+      status: 503,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (!(await getStoredRecord(publicId, env))) {
+    return new Response(JSON.stringify({ error: "Record not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { token, expiresAt } = await createShareToken(publicId, env.REPORT_SHARE_SECRET);
+  const link = new URL(WORKER_ROUTES.REPORT_PAGE, url.origin);
+  link.searchParams.set("id", publicId);
+  link.searchParams.set("share", token);
+  return new Response(JSON.stringify({ url: link.toString(), expiresAt }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * Handler for scheduled (cron) triggers
+ *
+ * - STUCK_SWEEP: reruns records stuck in processing, retries due webhook deliveries and
+ *   starts runs for due monitors.
+ * - CLEANUP: deletes expired records (with their R2 result objects) and expired R2 result objects.
+ * An unrecognised cron (e.g. a manual `wrangler dev --test-scheduled` run) runs every task.
+ */
+
+import { CRON_SCHEDULES, RECORD_EXPIRY_DAYS } from "../constants";
+import type { ScheduledRunSummary } from "../types";
+import {
+  deleteOldRecordsFromStorage,
+  deleteExpiredResultsFromBucket,
+  saveScheduledRunSummary,
+} from "../services/storage";
+import { retryPendingWebhookDeliveries } from "../services/webhooks";
+import { handleStuckRequests } from "./stuck-requests-handler";
+import { handleDueMonitors } from "./due-monitors-handler";
+
+function shouldRun(cron: string, schedule: string): boolean {
+  const known: string[] = Object.values(CRON_SCHEDULES);
+  return cron === schedule || !known.includes(cron);
+}
+
+function errorMessage(task: string, error: unknown): string {
+  return `${task}: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Runs the tasks for the triggered cron and writes a run summary to KV
+ */
+export async function handleScheduled(
+  controller: ScheduledController,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<void> {
+  const summary: ScheduledRunSummary = {
+    cron: controller.cron,
+    scheduledTime: controller.scheduledTime,
+    startedAt: Date.now(),
+    finishedAt: 0,
+    stuckRequests: null,
+    expiredRecords: null,
+    expiredResults: null,
+    webhookRetries: null,
+    monitors: null,
+    errors: [],
+  };
+
+  if (shouldRun(controller.cron, CRON_SCHEDULES.STUCK_SWEEP)) {
+    try {
+      summary.stuckRequests = await handleStuckRequests(env, ctx);
+    } catch (error) {
+      summary.errors.push(errorMessage("stuckRequests", error));
+    }
+
+    try {
+      summary.webhookRetries = await retryPendingWebhookDeliveries(env);
+    } catch (error) {
+      summary.errors.push(errorMessage("webhookRetries", error));
+    }
+
+    try {
+      summary.monitors = await handleDueMonitors(env, ctx);
+    } catch (error) {
+      summary.errors.push(errorMessage("monitors", error));
+    }
+  }
+
+  if (shouldRun(controller.cron, CRON_SCHEDULES.CLEANUP)) {
+    try {
+      const { deletedCount, deletedBlobCount, daysOld } = await deleteOldRecordsFromStorage(
+        RECORD_EXPIRY_DAYS,
+        env
+      );
+      summary.expiredRecords = { deletedCount, deletedBlobCount, daysOld };
+    } catch (error) {
+      summary.errors.push(errorMessage("expiredRecords", error));
+    }
+
+    try {
+      const { deletedCount } = await deleteExpiredResultsFromBucket(env);
+      summary.expiredResults = { deletedCount };
+    } catch (error) {
+      summary.errors.push(errorMessage("expiredResults", error));
+    }
+  }
+
+  summary.finishedAt = Date.now();
+  console.log("Scheduled run finished", JSON.stringify(summary));
+  await saveScheduledRunSummary(summary, env);
+}
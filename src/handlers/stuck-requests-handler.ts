@@ -1,37 +1,47 @@
 /**
- * Handler for checking and rerunning stuck requests
+ * Handler for checking and requeueing stuck requests
  */
 
+import { STUCK_PROCESSING_THRESHOLD_MS } from "../constants";
 import { getStuckProcessingRecords } from "../services/storage";
-import { runFullReport } from "../services/report";
 import { updateRecord } from "../services/storage";
-
-const STUCK_PROCESSING_THRESHOLD_MS = 3 * 60 * 1000; // 3 minutes
+import { enqueueReportJob } from "../services/report-queue";
+import { resetReportStatus } from "../services/report-lease";
 
 /**
- * Checks for stuck requests and reruns them
+ * Checks for stuck requests and puts them back on the report queue. A record whose run
+ * still holds an unexpired lease (or has already finished) is left alone.
  */
-export async function handleStuckRequests(env: Env, ctx: ExecutionContext): Promise<void> {
-  // console.log("Checking for stuck requests...");
+export async function handleStuckRequests(
+  env: Env,
+  ctx: ExecutionContext
+): Promise<{ found: number; requeuedCount: number; skippedCount: number; failedCount: number }> {
+  let requeuedCount = 0;
+  let skippedCount = 0;
+  let failedCount = 0;
 
   try {
-    // Get records stuck in processing for more than 3 minutes
+    // Get records stuck in processing for longer than STUCK_PROCESSING_THRESHOLD_MS
     const stuckRecords = await getStuckProcessingRecords(STUCK_PROCESSING_THRESHOLD_MS, env);
 
     if (stuckRecords.length === 0) {
-      // console.log("No stuck requests found");
-      return;
+      return { found: 0, requeuedCount, skippedCount, failedCount };
     }
 
-    console.log(`Found ${stuckRecords.length} stuck request(s), rerunning...`);
+    console.log(`Found ${stuckRecords.length} stuck request(s), requeueing...`);
 
-    // Rerun each stuck request
+    // Requeue each stuck request
     for (const record of stuckRecords) {
       try {
-        console.log(`Rerunning stuck request: publicId=${record.publicId}, url=${record.url}`);
+        if (!(await resetReportStatus(record, "pending", env))) {
+          console.log(`Not requeueing ${record.publicId}: its run still holds the lease or has finished`);
+          skippedCount++;
+          continue;
+        }
+        console.log(`Requeueing stuck request: publicId=${record.publicId}, url=${record.url}`);
 
         // Reset status to pending, preserve data field, and clear processingStartedAt
-        await updateRecord(
+        const updated = await updateRecord(
           {
             publicId: record.publicId,
             status: "pending",
@@ -41,18 +51,27 @@ export async function handleStuckRequests(env: Env, ctx: ExecutionContext): Prom
           },
           env
         );
+        if (updated == null) {
+          console.log(`Not requeueing ${record.publicId}: the record refused the reset to pending`);
+          skippedCount++;
+          continue;
+        }
 
-        // Rerun the report in this request so it completes (no waitUntil 30s limit)
-        await runFullReport(record.url, env, record.publicId).catch((error) => {
-          console.error(`Error rerunning stuck request ${record.publicId}:`, error);
-        });
+        await enqueueReportJob(record.publicId, env, ctx);
+        requeuedCount++;
       } catch (error) {
         console.error(`Error processing stuck request ${record.publicId}:`, error);
+        failedCount++;
       }
     }
 
-    console.log(`Successfully queued ${stuckRecords.length} stuck request(s) for rerun`);
+    console.log(
+      `Requeued ${requeuedCount} of ${stuckRecords.length} stuck request(s) ` +
+        `(${skippedCount} skipped, ${failedCount} failed)`
+    );
+    return { found: stuckRecords.length, requeuedCount, skippedCount, failedCount };
   } catch (error) {
     console.error("Error checking for stuck requests:", error);
+    throw error;
   }
 }
@@ -0,0 +1,35 @@
+/**
+ * Handler for report summaries
+ */
+
+import { getSummaryByPublicId } from "../services/storage";
+import { reportJsonResponse, serializeReport } from "../services/http-cache";
+
+/**
+ * Handles the summary route: serves the stored summary without reading R2, with an ETag
+ */
+export async function handleSummary(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+  const publicId = url.searchParams.get("id");
+
+  if (!publicId) {
+    return new Response(JSON.stringify({ error: "Missing id parameter" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const summary = await getSummaryByPublicId(publicId, env);
+
+  if (!summary) {
+    return new Response(JSON.stringify({ error: "Record not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return reportJsonResponse(request, await serializeReport(summary, summary.status));
+}
@@ -0,0 +1,99 @@
+/**
+ * Handler for issuing and revoking API tokens
+ *
+ * - GET: list tokens (id, name, scopes; never the token value)
+ * - POST: issue a token from { name, scopes }; the response carries the token value once
+ * - DELETE: revoke the token given by ?id=
+ */
+
+import type { ApiScope, ApiToken } from "../types";
+import { API_SCOPES } from "../constants";
+import { generateToken, hashToken } from "../services/auth";
+import { deleteApiToken, listApiTokens, putApiToken } from "../services/storage";
+
+/**
+ * Handles the tokens route
+ */
+export async function handleTokens(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+
+  if (request.method === "GET") {
+    return new Response(JSON.stringify({ tokens: await listApiTokens(env) }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (request.method === "POST") {
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // The token is mirrored into KV list metadata, which is capped at 1024 bytes
+    if (typeof body?.name !== "string" || !body.name || body.name.length > 100) {
+      return new Response(JSON.stringify({ error: "name is required (max 100 characters)" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const scopes: ApiScope[] = body.scopes;
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      scopes.some((scope) => !API_SCOPES.includes(scope))
+    ) {
+      return new Response(
+        JSON.stringify({ error: `scopes must be a non-empty subset of ${API_SCOPES.join(", ")}` }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const value = generateToken();
+    const token: ApiToken = {
+      id: crypto.randomUUID(),
+      name: body.name,
+      scopes: [...new Set(scopes)],
+      createdAt: Date.now(),
+    };
+    await putApiToken(await hashToken(value), token, env);
+
+    return new Response(JSON.stringify({ ...token, token: value }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (request.method === "DELETE") {
+    const id = url.searchParams.get("id");
+    if (!id) {
+      return new Response(JSON.stringify({ error: "Missing id parameter" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const deleted = await deleteApiToken(id, env);
+    return new Response(JSON.stringify({ success: deleted, id }), {
+      status: deleted ? 200 : 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(JSON.stringify({ error: "Method not allowed" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json", Allow: "GET, POST, DELETE" },
+  });
+}
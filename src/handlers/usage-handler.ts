@@ -0,0 +1,45 @@
+/**
+ * Handler for report quota usage
+ */
+
+import type { AuthContext } from "../types";
+import { hasScope } from "../services/auth";
+import { getClientUsage, listClientUsage } from "../services/rate-limit";
+
+/**
+ * Handles the usage route.
+ * Clients see their own minute/day usage; admin tokens see today's usage for every
+ * client, or one client's with ?clientId=.
+ */
+export async function handleUsage(
+  request: Request,
+  env: Env,
+  auth: AuthContext
+): Promise<Response> {
+  const url = new URL(request.url);
+  const clientId = url.searchParams.get("clientId");
+  const isAdmin = hasScope(auth, "admin");
+
+  if (clientId && !isAdmin && clientId !== auth.tokenId) {
+    return new Response(
+      JSON.stringify({ error: "Forbidden: only admin tokens can view other clients' usage" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  if (isAdmin && !clientId) {
+    return new Response(JSON.stringify({ clients: await listClientUsage(env) }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const usage = await getClientUsage(clientId ?? auth.tokenId, env);
+  return new Response(JSON.stringify(usage), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,203 @@
+/**
+ * Handlers for standing webhooks and the webhook delivery log
+ *
+ * WEBHOOKS:
+ * - GET: list webhooks (secrets omitted), or one webhook with ?id=
+ * - POST: create a webhook from { urlPattern, callbackUrl, events? }; the response carries its secret.
+ *   An exact urlPattern is canonicalized like target URLs.
+ * - DELETE: delete the webhook given by ?id=
+ * WEBHOOK_DELIVERIES:
+ * - GET: delivery log filtered by ?publicId=, ?webhookId= or ?status=; one delivery with ?id=
+ */
+
+import type { Webhook, WebhookDeliveryStatus, WebhookEventType } from "../types";
+import {
+  deleteWebhook,
+  getWebhook,
+  getWebhookDelivery,
+  listWebhookDeliveries,
+  listWebhooks,
+  putWebhook,
+} from "../services/storage";
+import { callbackUrlError } from "../services/webhooks";
+import { normalizeUrlPattern } from "../services/url-pattern";
+import { trackingParamsFromEnv } from "../services/url-normalization";
+
+const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ["report.completed", "report.failed"];
+
+function withoutSecret(webhook: Webhook): Omit<Webhook, "secret"> {
+  const { secret: _secret, ...rest } = webhook;
+  return rest;
+}
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return [...bytes].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Handles the webhooks route
+ */
+export async function handleWebhooks(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+
+  const id = url.searchParams.get("id");
+
+  if (request.method === "GET") {
+    if (!id) {
+      const webhooks = (await listWebhooks(env)).map(withoutSecret);
+      return new Response(JSON.stringify({ webhooks }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const webhook = await getWebhook(id, env);
+    if (!webhook) {
+      return new Response(JSON.stringify({ error: "Webhook not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    return new Response(JSON.stringify(withoutSecret(webhook)), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (request.method === "POST") {
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (typeof body?.urlPattern !== "string" || !body.urlPattern) {
+      return new Response(JSON.stringify({ error: "urlPattern is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const urlPattern = normalizeUrlPattern(body.urlPattern, trackingParamsFromEnv(env));
+    if ("error" in urlPattern) {
+      return new Response(JSON.stringify({ error: urlPattern.error }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const callbackError =
+      typeof body.callbackUrl === "string"
+        ? callbackUrlError(body.callbackUrl)
+        : "Must be an http(s) URL.";
+    if (callbackError) {
+      return new Response(
+        JSON.stringify({ error: `callbackUrl is required and must be valid. ${callbackError}` }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const events: WebhookEventType[] = body.events ?? WEBHOOK_EVENT_TYPES;
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      events.some((e) => !WEBHOOK_EVENT_TYPES.includes(e))
+    ) {
+      return new Response(
+        JSON.stringify({ error: `events must be a subset of ${WEBHOOK_EVENT_TYPES.join(", ")}` }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const webhook: Webhook = {
+      id: crypto.randomUUID(),
+      urlPattern: urlPattern.pattern,
+      callbackUrl: body.callbackUrl,
+      secret: generateSecret(),
+      events,
+      createdAt: Date.now(),
+    };
+    await putWebhook(webhook, env);
+
+    return new Response(JSON.stringify(webhook), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (request.method === "DELETE") {
+    if (!id) {
+      return new Response(JSON.stringify({ error: "Missing id parameter" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const deleted = await deleteWebhook(id, env);
+    return new Response(JSON.stringify({ success: deleted, id }), {
+      status: deleted ? 200 : 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(JSON.stringify({ error: "Method not allowed" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json", Allow: "GET, POST, DELETE" },
+  });
+}
+
+/**
+ * Handles the webhook delivery log route
+ */
+export async function handleWebhookDeliveries(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+
+  const id = url.searchParams.get("id");
+  if (id) {
+    const delivery = await getWebhookDelivery(id, env);
+    if (!delivery) {
+      return new Response(JSON.stringify({ error: "Delivery not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    return new Response(JSON.stringify(delivery), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const publicId = url.searchParams.get("publicId");
+  const webhookId = url.searchParams.get("webhookId");
+  const status = url.searchParams.get("status") as WebhookDeliveryStatus | null;
+
+  const deliveries = await listWebhookDeliveries(
+    (m) =>
+      (!publicId || m.publicId === publicId) &&
+      (!webhookId || m.webhookId === webhookId) &&
+      (!status || m.status === status),
+    env
+  );
+
+  return new Response(JSON.stringify({ total: deliveries.length, deliveries }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -1,18 +1,42 @@
 /**
  * Main entry point for the Cloudflare Worker
- * Routes requests to appropriate handlers
+ * Routes requests to appropriate handlers, consumes report queues and runs cron triggers
  */
 
 import { handleReportRequest, handleGetByPublicId } from "./handlers/report-handler";
 import { handleDebugList } from "./handlers/debug-handler";
 import { handleDeleteOldRecords } from "./handlers/delete-handler";
+import { handleSweepOrphans } from "./handlers/orphan-sweep-handler";
+import { handleBudgets } from "./handlers/budget-handler";
+import { handleCompare } from "./handlers/compare-handler";
+import { handleHistory } from "./handlers/history-handler";
+import { handleRecords } from "./handlers/records-handler";
+import { handleEvents } from "./handlers/events-handler";
+import { handleField } from "./handlers/field-handler";
+import { handleRaw } from "./handlers/raw-handler";
+import { handleSummary } from "./handlers/summary-handler";
+import { handleWebhooks, handleWebhookDeliveries } from "./handlers/webhook-handler";
+import { handleScheduled } from "./handlers/scheduled-handler";
+import { handleQueue } from "./handlers/queue-handler";
+import { handleTokens } from "./handlers/token-handler";
+import { handleUsage } from "./handlers/usage-handler";
+import { handleBatch } from "./handlers/batch-handler";
+import { handleMonitors } from "./handlers/monitor-handler";
+import { handleReportPage, handleReportShare } from "./handlers/report-page-handler";
+import { handleExport, handleMetrics } from "./handlers/metrics-handler";
+import { authorizeRequest, requiredScope } from "./services/auth";
 import { WORKER_ROUTES } from "./constants";
 
+import type { AuthContext, ReportJob } from "./types";
+
 // Re-export types for external use
 export type { PageSpeedRecord } from "./types";
 
-// Stub so deploy passes while delete migration runs (can remove after deploy succeeds)
-export { PageSpeedDurableObject } from "./durable-object-stub";
+// Per-report coordinator, bound as REPORT_COORDINATOR
+export { PageSpeedDurableObject } from "./report-coordinator";
+
+// Rate-limit counters, bound as USAGE_COUNTER
+export { UsageCounter } from "./usage-counter";
 
 export default {
   async fetch(
@@ -22,6 +46,20 @@ export default {
   ): Promise<Response> {
     const url = new URL(request.url);
 
+    // Routes listed in ROUTE_SCOPES require a bearer token with the route's scope,
+    // except a report page share link, which handleReportPage verifies instead
+    let auth: AuthContext | null = null;
+    const isShareLink =
+      url.pathname === WORKER_ROUTES.REPORT_PAGE && url.searchParams.has("share");
+    const scope = isShareLink ? null : requiredScope(url.pathname, request.method);
+    if (scope) {
+      const authorization = await authorizeRequest(request, env, scope);
+      if ("response" in authorization) {
+        return authorization.response;
+      }
+      auth = authorization.auth;
+    }
+
     // Route to appropriate handler
     if (url.pathname === WORKER_ROUTES.DEBUG_LIST) {
       return handleDebugList(env);
@@ -31,12 +69,88 @@ export default {
       return handleDeleteOldRecords(request, env);
     }
 
+    if (url.pathname === WORKER_ROUTES.SWEEP_ORPHANS) {
+      return handleSweepOrphans(request, env);
+    }
+
     if (url.pathname === WORKER_ROUTES.ROOT) {
-      return handleReportRequest(request, env, ctx);
+      return handleReportRequest(request, env, ctx, auth!);
     }
 
     if (url.pathname === WORKER_ROUTES.GET_BY_PUBLIC_ID) {
-      return handleGetByPublicId(request, env);
+      return handleGetByPublicId(request, env, ctx);
+    }
+
+    if (url.pathname === WORKER_ROUTES.HISTORY) {
+      return handleHistory(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.RECORDS) {
+      return handleRecords(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.EVENTS) {
+      return handleEvents(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.COMPARE) {
+      return handleCompare(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.SUMMARY) {
+      return handleSummary(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.FIELD) {
+      return handleField(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.RAW) {
+      return handleRaw(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.BUDGETS) {
+      return handleBudgets(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.WEBHOOKS) {
+      return handleWebhooks(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.WEBHOOK_DELIVERIES) {
+      return handleWebhookDeliveries(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.TOKENS) {
+      return handleTokens(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.USAGE) {
+      return handleUsage(request, env, auth!);
+    }
+
+    if (url.pathname === WORKER_ROUTES.BATCH) {
+      return handleBatch(request, env, ctx, auth!);
+    }
+
+    if (url.pathname === WORKER_ROUTES.MONITORS) {
+      return handleMonitors(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.REPORT_PAGE) {
+      return handleReportPage(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.REPORT_SHARE) {
+      return handleReportShare(request, env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.METRICS) {
+      return handleMetrics(env);
+    }
+
+    if (url.pathname === WORKER_ROUTES.EXPORT) {
+      return handleExport(request, env);
     }
 
     // 404 for unknown routes
@@ -45,4 +159,20 @@ export default {
       headers: { "Content-Type": "application/json" },
     });
   },
-} satisfies ExportedHandler<Env>;
+
+  async queue(
+    batch: MessageBatch<ReportJob>,
+    env: Env,
+    ctx: ExecutionContext
+  ): Promise<void> {
+    await handleQueue(batch, env, ctx);
+  },
+
+  async scheduled(
+    controller: ScheduledController,
+    env: Env,
+    ctx: ExecutionContext
+  ): Promise<void> {
+    await handleScheduled(controller, env, ctx);
+  },
+} satisfies ExportedHandler<Env, ReportJob>;
@@ -0,0 +1,248 @@
+/**
+ * Per-report coordinator Durable Object (one instance per publicId)
+ *
+ * KV is eventually consistent, so two deliveries of a report job, or a delivery and the
+ * stuck sweep, can both read a record as runnable. The coordinator is the source of truth
+ * for a report's status: it grants one run lease at a time, counts the runs started and
+ * accepts only the transitions allowed by services/record-status.ts. It also serves the
+ * report's /events streams: status changes and published progress are logged for replay
+ * and pushed to every open stream, which closes after completed or failed. Storage is
+ * cleared once the record itself would have expired.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type {
+  RecordStatus,
+  ReportCoordinatorState,
+  ReportLease,
+  ReportProgressEvent,
+  ReportProgressLog,
+} from "./types";
+import {
+  RECORD_EXPIRY_DAYS,
+  REPORT_EVENTS_HEARTBEAT_MS,
+  REPORT_EVENTS_MAX_LOG,
+  REPORT_EVENTS_RETRY_MS,
+} from "./constants";
+import { canTransition, isFinalStatus } from "./services/record-status";
+import {
+  encodeServerSentEvent,
+  isFinalProgressEvent,
+  SSE_HEADERS,
+} from "./services/report-events";
+
+const STATE_KEY = "state";
+const EVENTS_KEY = "events";
+
+const encoder = new TextEncoder();
+
+export class PageSpeedDurableObject extends DurableObject<Env> {
+  private streams = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    ctx: DurableObjectState,
+    env: Env
+  ) {
+    super(ctx, env);
+  }
+
+  /**
+   * Stored state, seeded from the record the first time a report is seen
+   */
+  private async load(publicId: string, recordStatus: RecordStatus): Promise<ReportCoordinatorState> {
+    const state = await this.ctx.storage.get<ReportCoordinatorState>(STATE_KEY);
+    return (
+      state ?? { publicId, status: recordStatus, lease: null, attempts: 0, updatedAt: Date.now() }
+    );
+  }
+
+  private async save(state: ReportCoordinatorState): Promise<void> {
+    state.updatedAt = Date.now();
+    await this.ctx.storage.put(STATE_KEY, state);
+    if (isFinalStatus(state.status)) {
+      await this.ctx.storage.setAlarm(state.updatedAt + RECORD_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+    }
+  }
+
+  /**
+   * Grants a run lease unless the report is finished or another lease has not expired.
+   * A granted lease moves the report to processing.
+   */
+  async acquireLease(
+    publicId: string,
+    recordStatus: RecordStatus,
+    ttlMs: number
+  ): Promise<ReportLease> {
+    const state = await this.load(publicId, recordStatus);
+    const now = Date.now();
+
+    if (isFinalStatus(state.status)) {
+      return { granted: false, reason: "finished", status: state.status };
+    }
+    if (state.lease && state.lease.expiresAt > now) {
+      return { granted: false, reason: "leased", status: state.status };
+    }
+
+    state.lease = { id: crypto.randomUUID(), expiresAt: now + ttlMs };
+    state.status = "processing";
+    state.attempts++;
+    await this.save(state);
+    await this.publishStatus(state.publicId, "processing");
+
+    return {
+      granted: true,
+      leaseId: state.lease.id,
+      expiresAt: state.lease.expiresAt,
+      attempt: state.attempts,
+    };
+  }
+
+  /**
+   * Ends a run with its outcome. Refused when the lease was taken over by a later run
+   * or the transition is not allowed.
+   */
+  async releaseLease(leaseId: string, status: RecordStatus): Promise<boolean> {
+    const state = await this.ctx.storage.get<ReportCoordinatorState>(STATE_KEY);
+    if (!state || state.lease?.id !== leaseId || !canTransition(state.status, status)) {
+      return false;
+    }
+
+    state.lease = null;
+    state.status = status;
+    await this.save(state);
+    if (status === "pending") await this.publishStatus(state.publicId, "pending");
+    return true;
+  }
+
+  /**
+   * Whether leaseId is the current, unexpired lease
+   */
+  async holdsLease(leaseId: string): Promise<boolean> {
+    const state = await this.ctx.storage.get<ReportCoordinatorState>(STATE_KEY);
+    return state?.lease?.id === leaseId && state.lease.expiresAt > Date.now();
+  }
+
+  /**
+   * Moves a report without a lease (stuck sweep requeue, dead-lettered job).
+   * Refused while a lease is active or when the transition is not allowed.
+   */
+  async reset(
+    publicId: string,
+    recordStatus: RecordStatus,
+    status: "pending" | "failed"
+  ): Promise<boolean> {
+    const state = await this.load(publicId, recordStatus);
+    if (state.lease && state.lease.expiresAt > Date.now()) return false;
+    if (!canTransition(state.status, status)) return false;
+
+    state.lease = null;
+    state.status = status;
+    await this.save(state);
+    if (status === "pending") await this.publishStatus(state.publicId, "pending");
+    return true;
+  }
+
+  async getState(): Promise<ReportCoordinatorState | null> {
+    return (await this.ctx.storage.get<ReportCoordinatorState>(STATE_KEY)) ?? null;
+  }
+
+  /**
+   * Log id of the completed or failed event, or null when none is logged (or the log expired)
+   */
+  async finalEventId(): Promise<number | null> {
+    const last = (await this.progressLog()).entries.at(-1);
+    return last && isFinalProgressEvent(last.event) ? last.id : null;
+  }
+
+  /**
+   * Logs a progress event and pushes it to open streams; a final event closes them
+   */
+  async publish(event: ReportProgressEvent): Promise<void> {
+    const log = await this.progressLog();
+    const id = log.nextId++;
+    log.entries.push({ id, event });
+    log.entries = log.entries.slice(-REPORT_EVENTS_MAX_LOG);
+    await this.ctx.storage.put(EVENTS_KEY, log);
+
+    this.broadcast(encodeServerSentEvent(event, id));
+    if (isFinalProgressEvent(event)) {
+      for (const writer of this.streams) writer.close().catch(() => {});
+      this.streams.clear();
+      this.stopHeartbeat();
+    }
+  }
+
+  /**
+   * Opens an /events stream: ?id= is the publicId and ?status= the record's status, used
+   * when nothing has been logged yet. Events after Last-Event-ID are replayed first.
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const publicId = url.searchParams.get("id") ?? "";
+    const lastEventId = Number(request.headers.get("Last-Event-ID")) || 0;
+
+    const log = await this.progressLog();
+    let opening = `retry: ${REPORT_EVENTS_RETRY_MS}\n\n`;
+    if (log.entries.length === 0) {
+      const state = await this.getState();
+      const status = state?.status ?? url.searchParams.get("status");
+      opening += encodeServerSentEvent({
+        type: "status",
+        publicId,
+        status: status === "processing" ? "processing" : "pending",
+        at: Date.now(),
+      });
+    }
+    for (const { id, event } of log.entries) {
+      if (id > lastEventId) opening += encodeServerSentEvent(event, id);
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    // Not awaited: the write completes once the client starts reading the response
+    writer.write(encoder.encode(opening)).catch(() => this.streams.delete(writer));
+
+    const last = log.entries[log.entries.length - 1];
+    if (last && isFinalProgressEvent(last.event)) {
+      writer.close().catch(() => {});
+    } else {
+      this.streams.add(writer);
+      this.startHeartbeat();
+    }
+
+    return new Response(readable, { headers: SSE_HEADERS });
+  }
+
+  async alarm(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+
+  private async progressLog(): Promise<ReportProgressLog> {
+    return (await this.ctx.storage.get<ReportProgressLog>(EVENTS_KEY)) ?? { nextId: 1, entries: [] };
+  }
+
+  private async publishStatus(publicId: string, status: "pending" | "processing"): Promise<void> {
+    await this.publish({ type: "status", publicId, status, at: Date.now() });
+  }
+
+  private broadcast(chunk: string): void {
+    const bytes = encoder.encode(chunk);
+    for (const writer of this.streams) {
+      // A rejected write means the client went away
+      writer.write(bytes).catch(() => {
+        this.streams.delete(writer);
+        if (this.streams.size === 0) this.stopHeartbeat();
+      });
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.heartbeat ??= setInterval(() => this.broadcast(": keep-alive\n\n"), REPORT_EVENTS_HEARTBEAT_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+}
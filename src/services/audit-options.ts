@@ -0,0 +1,76 @@
+/**
+ * Audit options: which strategies, categories and locale a report runs with
+ */
+
+import type { AuditOptions, FormFactor, PageSpeedCategory } from "../types";
+import { PAGESPEED_CATEGORIES } from "../constants";
+
+const FORM_FACTORS: FormFactor[] = ["MOBILE", "DESKTOP"];
+
+const LOCALE_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/;
+
+export const DEFAULT_AUDIT_OPTIONS: AuditOptions = {
+  formFactors: FORM_FACTORS,
+  categories: [...PAGESPEED_CATEGORIES],
+  locale: null,
+};
+
+/**
+ * Parses ?strategy=, ?categories= and ?locale= into audit options.
+ * Values are returned in canonical order so equal options compare equal.
+ */
+export function parseAuditOptions(
+  params: URLSearchParams
+): { options: AuditOptions } | { error: string } {
+  let formFactors = DEFAULT_AUDIT_OPTIONS.formFactors;
+  const strategy = params.get("strategy");
+  if (strategy && strategy.toUpperCase() !== "ALL") {
+    const formFactor = strategy.toUpperCase() as FormFactor;
+    if (!FORM_FACTORS.includes(formFactor)) {
+      return { error: "Invalid strategy parameter. Must be mobile, desktop or all." };
+    }
+    formFactors = [formFactor];
+  }
+
+  let categories = DEFAULT_AUDIT_OPTIONS.categories;
+  const categoriesParam = params.get("categories");
+  if (categoriesParam) {
+    const requested = new Set<PageSpeedCategory>();
+    for (const value of categoriesParam.split(",")) {
+      const category = value.trim().toUpperCase().replace(/-/g, "_") as PageSpeedCategory;
+      if (!PAGESPEED_CATEGORIES.includes(category)) {
+        return {
+          error: `Invalid categories parameter. Must be a comma-separated subset of ${PAGESPEED_CATEGORIES.join(", ")}.`,
+        };
+      }
+      requested.add(category);
+    }
+    categories = PAGESPEED_CATEGORIES.filter((c) => requested.has(c));
+  }
+
+  const locale = params.get("locale");
+  if (locale && !LOCALE_PATTERN.test(locale)) {
+    return { error: "Invalid locale parameter. Must be a language tag such as en or pt-BR." };
+  }
+
+  return { options: { formFactors, categories, locale: locale || null } };
+}
+
+/**
+ * Stable string for the options; empty for the defaults so existing cache keys stay valid
+ */
+export function auditOptionsKey(options: AuditOptions): string {
+  const isDefault =
+    options.formFactors.length === DEFAULT_AUDIT_OPTIONS.formFactors.length &&
+    options.categories.length === DEFAULT_AUDIT_OPTIONS.categories.length &&
+    !options.locale;
+  if (isDefault) return "";
+  return [options.formFactors.join("+"), options.categories.join("+"), options.locale ?? ""].join(";");
+}
+
+/**
+ * Value stored in the record's formFactor field: the single strategy, or "ALL"
+ */
+export function formFactorLabel(options: AuditOptions): string {
+  return options.formFactors.length === 1 ? options.formFactors[0] : "ALL";
+}
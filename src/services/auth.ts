@@ -0,0 +1,112 @@
+/**
+ * Bearer token authentication and scope checks
+ *
+ * Clients send `Authorization: Bearer <token>`. Tokens are issued through the
+ * TOKENS route and stored in KV as SHA-256 hashes. The ADMIN_API_TOKEN secret
+ * is accepted as an admin token so the first tokens can be issued.
+ */
+
+import type { ApiScope, AuthContext } from "../types";
+import { API_TOKEN_PREFIX, ROUTE_SCOPES } from "../constants";
+import { getApiTokenByHash } from "./storage";
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Hex SHA-256 of a token; the only form in which tokens are stored
+ */
+export async function hashToken(token: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token)));
+}
+
+/**
+ * Generates a new random token value
+ */
+export function generateToken(): string {
+  return `${API_TOKEN_PREFIX}${toHex(crypto.getRandomValues(new Uint8Array(32)).buffer)}`;
+}
+
+function bearerToken(request: Request): string | null {
+  const header = request.headers.get("Authorization");
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Resolves the request's bearer token; null when missing or unknown
+ */
+export async function authenticate(
+  request: Request,
+  env: Env
+): Promise<AuthContext | null> {
+  const token = bearerToken(request);
+  if (!token) return null;
+
+  const tokenHash = await hashToken(token);
+
+  // Compare hashes so the check does not leak the admin token through timing
+  if (env.ADMIN_API_TOKEN && tokenHash === (await hashToken(env.ADMIN_API_TOKEN))) {
+    return { tokenId: "admin", scopes: ["admin"] };
+  }
+
+  const stored = await getApiTokenByHash(tokenHash, env);
+  return stored ? { tokenId: stored.id, scopes: stored.scopes } : null;
+}
+
+/**
+ * Scope required for a route and method; null for routes that are not protected.
+ * Methods missing from a per-method entry require admin.
+ */
+export function requiredScope(pathname: string, method: string): ApiScope | null {
+  const entry = ROUTE_SCOPES[pathname];
+  if (!entry) return null;
+  if (typeof entry === "string") return entry;
+  return entry[method] ?? "admin";
+}
+
+/**
+ * Whether the context grants scope (admin grants every scope)
+ */
+export function hasScope(auth: AuthContext, scope: ApiScope): boolean {
+  return auth.scopes.includes("admin") || auth.scopes.includes(scope);
+}
+
+/**
+ * Authenticates the request and checks scope.
+ * Returns the auth context, or a 401/403 response to send instead.
+ */
+export async function authorizeRequest(
+  request: Request,
+  env: Env,
+  scope: ApiScope
+): Promise<{ auth: AuthContext } | { response: Response }> {
+  const auth = await authenticate(request, env);
+
+  if (!auth) {
+    return {
+      response: new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: {
+          "Content-Type": "application/json",
+          "WWW-Authenticate": 'Bearer realm="web-perf-report"',
+        },
+      }),
+    };
+  }
+
+  if (!hasScope(auth, scope)) {
+    return {
+      response: new Response(
+        JSON.stringify({ error: `Forbidden: token lacks the ${scope} scope` }),
+        {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        }
+      ),
+    };
+  }
+
+  return { auth };
+}
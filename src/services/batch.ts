@@ -0,0 +1,182 @@
+/**
+ * Batch report creation and progress rollups
+ */
+
+import type {
+  AuditOptions,
+  BatchProgress,
+  BatchRecord,
+  BatchSkippedUrl,
+  FormFactor,
+  PageSpeedCategory,
+  RecordStatus,
+  ScoreRollup,
+  ScoreRollupEntry,
+} from "../types";
+import { createPendingRecord, getStoredRecord, putBatch, updateRecord } from "./storage";
+import type { StoredRecord } from "./storage";
+import { enqueueReportJobs } from "./report-queue";
+import { formFactorLabel } from "./audit-options";
+import { resetReportStatus } from "./report-lease";
+import { normalizeTargetUrl } from "./url-normalization";
+
+/**
+ * Normalizes and de-duplicates candidate page URLs, keeping invalid ones as skipped
+ */
+export function prepareBatchUrls(
+  candidates: string[],
+  trackingParams: string[]
+): { urls: string[]; skipped: BatchSkippedUrl[] } {
+  const urls: string[] = [];
+  const skipped: BatchSkippedUrl[] = [];
+  const seen = new Set<string>();
+
+  for (const candidate of candidates) {
+    const normalized = normalizeTargetUrl(candidate, trackingParams);
+    if ("error" in normalized) {
+      skipped.push({ url: candidate, reason: normalized.error });
+    } else if (seen.has(normalized.url)) {
+      skipped.push({ url: candidate, reason: "Duplicate URL" });
+    } else {
+      seen.add(normalized.url);
+      urls.push(normalized.url);
+    }
+  }
+
+  return { urls, skipped };
+}
+
+/**
+ * Creates one pending record per URL, then queues their jobs with sendBatch and stores
+ * the batch. A URL whose record could not be created is added to skipped; a record whose
+ * job could not be sent is marked failed. Both are returned as unsent.
+ */
+export async function createBatch(
+  urls: string[],
+  skipped: BatchSkippedUrl[],
+  source: BatchRecord["source"],
+  options: AuditOptions,
+  createdBy: string,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<{ batch: BatchRecord; unsent: string[] }> {
+  const created: Array<{ url: string; publicId: string }> = [];
+  const unsent: string[] = [];
+  const notCreated: BatchSkippedUrl[] = [];
+
+  for (const requestUrl of urls) {
+    try {
+      const { publicId } = await createPendingRecord(
+        {
+          requestUrl,
+          formFactor: formFactorLabel(options),
+          status: "pending",
+          data: {},
+          options,
+        },
+        env
+      );
+      created.push({ url: requestUrl, publicId });
+    } catch (error) {
+      console.error(`createBatch: could not create a record for ${requestUrl}`, error);
+      notCreated.push({ url: requestUrl, reason: "Could not be created" });
+      unsent.push(requestUrl);
+    }
+  }
+
+  const enqueuedAt = Date.now();
+  const sent = await enqueueReportJobs(
+    created.map(({ publicId }) => ({ publicId, enqueuedAt })),
+    env,
+    ctx
+  );
+  for (const { url, publicId } of created.slice(sent)) {
+    const error = "Report job could not be queued";
+    if (await resetReportStatus({ publicId, status: "pending" }, "failed", env)) {
+      await updateRecord({ publicId, status: "failed", data: { error }, dataUrl: "", error }, env);
+    }
+    unsent.push(url);
+  }
+
+  const batch: BatchRecord = {
+    id: crypto.randomUUID(),
+    createdAt: enqueuedAt,
+    createdBy,
+    source,
+    options,
+    publicIds: created.map(({ publicId }) => publicId),
+    skipped: [...skipped, ...notCreated],
+  };
+  await putBatch(batch, env);
+  return { batch, unsent };
+}
+
+/**
+ * Average/min/max category scores across completed records, per form factor
+ */
+export function rollupScores(records: StoredRecord[]): ScoreRollup {
+  const values: Partial<Record<FormFactor, Partial<Record<PageSpeedCategory, number[]>>>> = {};
+
+  for (const record of records) {
+    if (record.status !== "completed" || !record.summary) continue;
+    for (const [formFactor, summary] of Object.entries(record.summary)) {
+      const byCategory = (values[formFactor as FormFactor] ??= {});
+      for (const [category, score] of Object.entries(summary?.categories ?? {})) {
+        if (score == null) continue;
+        (byCategory[category as PageSpeedCategory] ??= []).push(score);
+      }
+    }
+  }
+
+  const rollup: ScoreRollup = {};
+  for (const [formFactor, byCategory] of Object.entries(values)) {
+    const entry: Partial<Record<PageSpeedCategory, ScoreRollupEntry>> = {};
+    for (const [category, scores] of Object.entries(byCategory ?? {})) {
+      entry[category as PageSpeedCategory] = {
+        average: Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length),
+        min: Math.min(...scores),
+        max: Math.max(...scores),
+        count: scores.length,
+      };
+    }
+    rollup[formFactor as FormFactor] = entry;
+  }
+  return rollup;
+}
+
+/**
+ * Aggregate status counts for a batch, plus the score rollup once every record finished
+ */
+export async function getBatchProgress(
+  batch: BatchRecord,
+  env: Env
+): Promise<BatchProgress> {
+  const counts: Record<RecordStatus, number> = {
+    pending: 0,
+    processing: 0,
+    completed: 0,
+    failed: 0,
+  };
+  const records: StoredRecord[] = [];
+
+  for (const publicId of batch.publicIds) {
+    const record = await getStoredRecord(publicId, env);
+    if (!record) continue;
+    records.push(record);
+    counts[record.status as RecordStatus]++;
+  }
+
+  const finished = counts.pending === 0 && counts.processing === 0;
+
+  return {
+    id: batch.id,
+    createdAt: batch.createdAt,
+    source: batch.source,
+    total: batch.publicIds.length,
+    counts,
+    finished,
+    rollup: finished ? rollupScores(records) : null,
+    records: records.map((r) => ({ publicId: r.publicId, url: r.url, status: r.status })),
+    skipped: batch.skipped,
+  };
+}
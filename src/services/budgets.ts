@@ -0,0 +1,185 @@
+/**
+ * Performance budget validation, matching and evaluation
+ */
+
+import type {
+  BudgetResult,
+  BudgetViolation,
+  CategoryScores,
+  FormFactor,
+  LabMetric,
+  PageSpeedApiResponse,
+  PageSpeedCategory,
+  PerformanceBudget,
+} from "../types";
+import { LAB_METRIC_AUDITS, PAGESPEED_CATEGORIES } from "../constants";
+import { extractCategoryScores, extractLabMetrics } from "./summary";
+import { listBudgets } from "./storage";
+import { matchesUrlPattern, normalizeUrlPattern } from "./url-pattern";
+
+const FORM_FACTORS: FormFactor[] = ["MOBILE", "DESKTOP"];
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Validates a budget request body; an exact urlPattern is canonicalized.
+ * Returns the budget fields or an error message suitable for a 400 response.
+ */
+export function parseBudgetInput(
+  body: any,
+  trackingParams?: string[]
+): { budget: Omit<PerformanceBudget, "id" | "createdAt" | "updatedAt"> } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Body must be a JSON object" };
+  }
+  if (typeof body.urlPattern !== "string" || !body.urlPattern) {
+    return { error: "urlPattern is required" };
+  }
+  const urlPattern = normalizeUrlPattern(body.urlPattern, trackingParams);
+  if ("error" in urlPattern) return urlPattern;
+
+  const budget: Omit<PerformanceBudget, "id" | "createdAt" | "updatedAt"> = {
+    urlPattern: urlPattern.pattern,
+  };
+
+  if (body.formFactors !== undefined) {
+    if (
+      !Array.isArray(body.formFactors) ||
+      body.formFactors.some((f: unknown) => !FORM_FACTORS.includes(f as FormFactor))
+    ) {
+      return { error: `formFactors must be a subset of ${FORM_FACTORS.join(", ")}` };
+    }
+    budget.formFactors = body.formFactors;
+  }
+
+  if (body.minScores !== undefined) {
+    const minScores: CategoryScores = {};
+    for (const [category, value] of Object.entries(body.minScores ?? {})) {
+      if (!PAGESPEED_CATEGORIES.includes(category as PageSpeedCategory)) {
+        return { error: `Unknown category in minScores: ${category}` };
+      }
+      if (!isNonNegativeNumber(value) || value > 100) {
+        return { error: `minScores.${category} must be a number between 0 and 100` };
+      }
+      minScores[category as PageSpeedCategory] = value;
+    }
+    budget.minScores = minScores;
+  }
+
+  if (body.maxMetrics !== undefined) {
+    const maxMetrics: Partial<Record<LabMetric, number>> = {};
+    for (const [metric, value] of Object.entries(body.maxMetrics ?? {})) {
+      if (!(metric in LAB_METRIC_AUDITS)) {
+        return { error: `Unknown metric in maxMetrics: ${metric}` };
+      }
+      if (!isNonNegativeNumber(value)) {
+        return { error: `maxMetrics.${metric} must be a non-negative number` };
+      }
+      maxMetrics[metric as LabMetric] = value;
+    }
+    budget.maxMetrics = maxMetrics;
+  }
+
+  if (body.maxResourceSizes !== undefined) {
+    const maxResourceSizes: Record<string, number> = {};
+    for (const [resourceType, value] of Object.entries(body.maxResourceSizes ?? {})) {
+      if (!isNonNegativeNumber(value)) {
+        return { error: `maxResourceSizes.${resourceType} must be a non-negative number of bytes` };
+      }
+      maxResourceSizes[resourceType] = value;
+    }
+    budget.maxResourceSizes = maxResourceSizes;
+  }
+
+  return { budget };
+}
+
+/**
+ * Lists the budgets whose pattern matches the URL
+ */
+export async function getBudgetsForUrl(url: string, env: Env): Promise<PerformanceBudget[]> {
+  const budgets = await listBudgets(env);
+  return budgets.filter((budget) => matchesUrlPattern(budget.urlPattern, url));
+}
+
+/**
+ * Transfer sizes in bytes keyed by Lighthouse resource type, from the resource-summary audit
+ */
+function extractResourceSizes(data: PageSpeedApiResponse): Record<string, number> {
+  const items = data?.lighthouseResult?.audits?.["resource-summary"]?.details?.items ?? [];
+  const sizes: Record<string, number> = {};
+  for (const item of items) {
+    if (typeof item?.resourceType === "string" && typeof item.transferSize === "number") {
+      sizes[item.resourceType] = item.transferSize;
+    }
+  }
+  return sizes;
+}
+
+function evaluateBudget(
+  budget: PerformanceBudget,
+  formFactor: FormFactor,
+  data: PageSpeedApiResponse
+): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+  const base = { budgetId: budget.id, formFactor };
+
+  // Categories the report did not audit are skipped
+  const scores = extractCategoryScores(data);
+  for (const [category, limit] of Object.entries(budget.minScores ?? {})) {
+    if (limit == null || !(category in scores)) continue;
+    const actual = scores[category as PageSpeedCategory] ?? null;
+    if (actual == null || actual < limit) {
+      violations.push({ ...base, type: "score", key: category, limit, actual });
+    }
+  }
+
+  // Lab metrics and resource sizes come from the performance category
+  if (!("PERFORMANCE" in scores)) return violations;
+
+  const metrics = extractLabMetrics(data);
+  for (const [metric, limit] of Object.entries(budget.maxMetrics ?? {})) {
+    const actual = metrics[metric as LabMetric] ?? null;
+    if (actual == null || actual > limit) {
+      violations.push({ ...base, type: "metric", key: metric, limit, actual });
+    }
+  }
+
+  const sizes = extractResourceSizes(data);
+  for (const [resourceType, limit] of Object.entries(budget.maxResourceSizes ?? {})) {
+    // A resource type missing from the summary means nothing of that type was loaded
+    const actual = sizes[resourceType] ?? 0;
+    if (actual > limit) {
+      violations.push({ ...base, type: "resourceSize", key: resourceType, limit, actual });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Evaluates budgets against the per-form-factor results of a completed report
+ */
+export function evaluateBudgets(
+  budgets: PerformanceBudget[],
+  results: Partial<Record<FormFactor, PageSpeedApiResponse>>
+): BudgetResult {
+  const violations: BudgetViolation[] = [];
+
+  for (const budget of budgets) {
+    const formFactors = budget.formFactors ?? FORM_FACTORS;
+    for (const formFactor of formFactors) {
+      const data = results[formFactor];
+      if (data) violations.push(...evaluateBudget(budget, formFactor, data));
+    }
+  }
+
+  return {
+    passed: violations.length === 0,
+    evaluatedAt: Date.now(),
+    budgetIds: budgets.map((b) => b.id),
+    violations,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Diffing of two stored PageSpeed reports
+ */
+
+import type {
+  AuditStateChange,
+  FormFactor,
+  FormFactorComparison,
+  LabMetric,
+  PageSpeedApiResponse,
+  PageSpeedCategory,
+  RecordResponse,
+  ReportComparison,
+  ValueDelta,
+} from "../types";
+import {
+  AUDIT_PASS_THRESHOLD,
+  LAB_METRIC_AUDITS,
+  PAGESPEED_CATEGORIES,
+  UNSCORED_DISPLAY_MODES,
+} from "../constants";
+import { extractCategoryScores, extractLabMetrics, resultsByFormFactor } from "./summary";
+
+function valueDelta(base: number | null | undefined, head: number | null | undefined): ValueDelta {
+  const b = base ?? null;
+  const h = head ?? null;
+  return { base: b, head: h, delta: b != null && h != null ? h - b : null };
+}
+
+function auditState(audit: any): "pass" | "fail" | null {
+  if (!audit || typeof audit.score !== "number") return null;
+  if (UNSCORED_DISPLAY_MODES.has(audit.scoreDisplayMode)) return null;
+  return audit.score >= AUDIT_PASS_THRESHOLD ? "pass" : "fail";
+}
+
+function compareAudits(
+  base: PageSpeedApiResponse,
+  head: PageSpeedApiResponse
+): AuditStateChange[] {
+  const baseAudits = base.lighthouseResult?.audits ?? {};
+  const headAudits = head.lighthouseResult?.audits ?? {};
+  const changes: AuditStateChange[] = [];
+
+  for (const id of Object.keys(headAudits)) {
+    const baseState = auditState(baseAudits[id]);
+    const headState = auditState(headAudits[id]);
+    if (baseState && headState && baseState !== headState) {
+      changes.push({
+        id,
+        title: headAudits[id].title ?? id,
+        base: baseState,
+        head: headState,
+      });
+    }
+  }
+
+  return changes.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function compareFormFactor(
+  base: PageSpeedApiResponse,
+  head: PageSpeedApiResponse
+): FormFactorComparison {
+  const baseScores = extractCategoryScores(base);
+  const headScores = extractCategoryScores(head);
+  const categories: Partial<Record<PageSpeedCategory, ValueDelta>> = {};
+  for (const category of PAGESPEED_CATEGORIES) {
+    categories[category] = valueDelta(baseScores[category], headScores[category]);
+  }
+
+  const baseMetrics = extractLabMetrics(base);
+  const headMetrics = extractLabMetrics(head);
+  const metrics = {} as Record<LabMetric, ValueDelta>;
+  for (const metric of Object.keys(LAB_METRIC_AUDITS) as LabMetric[]) {
+    metrics[metric] = valueDelta(baseMetrics[metric], headMetrics[metric]);
+  }
+
+  return { categories, metrics, audits: compareAudits(base, head) };
+}
+
+/**
+ * Compares two completed records per form factor.
+ * Form factors present in only one of the reports are omitted.
+ */
+export function compareReports(
+  base: RecordResponse,
+  head: RecordResponse
+): ReportComparison {
+  const baseResults = resultsByFormFactor(base.data);
+  const headResults = resultsByFormFactor(head.data);
+  const formFactors: Partial<Record<FormFactor, FormFactorComparison>> = {};
+
+  for (const formFactor of Object.keys(headResults) as FormFactor[]) {
+    const baseResult = baseResults[formFactor];
+    const headResult = headResults[formFactor];
+    if (baseResult && headResult) {
+      formFactors[formFactor] = compareFormFactor(baseResult, headResult);
+    }
+  }
+
+  return {
+    base: { publicId: base.publicId, url: base.url },
+    head: { publicId: head.publicId, url: head.url },
+    formFactors,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Extraction of CrUX field data (loadingExperience / originLoadingExperience) from
+ * PageSpeed Insights responses, and comparison with the lab metrics
+ */
+
+import type {
+  FieldCategory,
+  FieldDistribution,
+  FieldExperience,
+  FieldMetric,
+  FieldMetricData,
+  FormFactor,
+  FormFactorFieldData,
+  LabFieldDisagreement,
+  PageSpeedApiResponse,
+  ReportFieldData,
+} from "../types";
+import { FIELD_METRICS } from "../constants";
+import { extractLabMetrics, resultsByFormFactor } from "./summary";
+
+const FIELD_CATEGORIES: FieldCategory[] = ["FAST", "AVERAGE", "SLOW"];
+
+/** CrUX reports CLS multiplied by 100 */
+export const CRUX_CLS_SCALE = 100;
+
+function toFieldCategory(value: unknown): FieldCategory | null {
+  return FIELD_CATEGORIES.includes(value as FieldCategory) ? (value as FieldCategory) : null;
+}
+
+/**
+ * Rates a value (ms, or unitless for CLS) against the metric's Core Web Vitals thresholds
+ */
+export function fieldCategoryFor(metric: FieldMetric, value: number): FieldCategory {
+  const [good, poor] = FIELD_METRICS[metric].thresholds;
+  if (value <= good) return "FAST";
+  return value <= poor ? "AVERAGE" : "SLOW";
+}
+
+function extractMetric(metric: FieldMetric, raw: any): FieldMetricData {
+  const scale = metric === "CLS" ? CRUX_CLS_SCALE : 1;
+  const distributions: FieldDistribution[] = Array.isArray(raw?.distributions)
+    ? raw.distributions.map((bucket: any) => ({
+        min: (typeof bucket?.min === "number" ? bucket.min : 0) / scale,
+        max: typeof bucket?.max === "number" ? bucket.max / scale : null,
+        proportion: typeof bucket?.proportion === "number" ? bucket.proportion : 0,
+      }))
+    : [];
+
+  return {
+    p75: typeof raw?.percentile === "number" ? raw.percentile / scale : null,
+    category: toFieldCategory(raw?.category),
+    distributions,
+  };
+}
+
+/**
+ * Extracts one loadingExperience or originLoadingExperience (null when absent)
+ */
+export function extractFieldExperience(experience: any): FieldExperience | null {
+  if (!experience?.metrics) return null;
+
+  const metrics: FieldExperience["metrics"] = {};
+  for (const metric of Object.keys(FIELD_METRICS) as FieldMetric[]) {
+    const raw = experience.metrics[FIELD_METRICS[metric].cruxName];
+    if (raw) metrics[metric] = extractMetric(metric, raw);
+  }
+
+  return {
+    id: typeof experience.id === "string" ? experience.id : null,
+    overallCategory: toFieldCategory(experience.overall_category),
+    metrics,
+  };
+}
+
+/**
+ * Metrics whose lab value falls in a different Core Web Vitals band from the field p75
+ */
+function findDisagreements(
+  data: PageSpeedApiResponse,
+  page: FieldExperience | null
+): LabFieldDisagreement[] {
+  if (!page) return [];
+  const lab = extractLabMetrics(data);
+  const disagreements: LabFieldDisagreement[] = [];
+
+  for (const metric of Object.keys(FIELD_METRICS) as FieldMetric[]) {
+    const labMetric = FIELD_METRICS[metric].labMetric;
+    const labValue = labMetric ? lab[labMetric] : null;
+    const field = page.metrics[metric];
+    if (labValue == null || field?.p75 == null) continue;
+
+    const labCategory = fieldCategoryFor(metric, labValue);
+    const fieldCategory = field.category ?? fieldCategoryFor(metric, field.p75);
+    if (labCategory !== fieldCategory) {
+      disagreements.push({ metric, labValue, labCategory, fieldP75: field.p75, fieldCategory });
+    }
+  }
+  return disagreements;
+}
+
+/**
+ * Builds the field data for one form factor's PageSpeed API response
+ * (null when CrUX had no data for the page or its origin)
+ */
+export function extractFormFactorFieldData(
+  data: PageSpeedApiResponse
+): FormFactorFieldData | null {
+  const page = extractFieldExperience(data?.loadingExperience);
+  const origin = extractFieldExperience(data?.originLoadingExperience);
+  if (!page && !origin) return null;
+
+  return {
+    page,
+    origin,
+    originFallback: data?.loadingExperience?.origin_fallback === true,
+    disagreements: findDisagreements(data, page),
+  };
+}
+
+/**
+ * Builds the report's field data from the stored results array
+ */
+export function extractReportFieldData(
+  results: unknown,
+  order?: FormFactor[]
+): ReportFieldData {
+  const fieldData: ReportFieldData = {};
+  const byFormFactor = resultsByFormFactor(results, order);
+  for (const formFactor of Object.keys(byFormFactor) as FormFactor[]) {
+    const data = extractFormFactorFieldData(byFormFactor[formFactor]!);
+    if (data) fieldData[formFactor] = data;
+  }
+  return fieldData;
+}
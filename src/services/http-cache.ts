@@ -0,0 +1,197 @@
+/**
+ * HTTP caching for report reads: strong ETags, If-None-Match and Cache-Control
+ *
+ * Finished (completed or failed) reports no longer change, so their responses may be kept
+ * for REPORT_CACHE_MAX_AGE_SECONDS; pending and processing ones are no-store. Reads need a
+ * bearer token, so browsers may cache them (private) but shared caches may not. The full
+ * GET_BY_PUBLIC_ID response of a finished report is also kept in the Workers Cache API
+ * (per data center) under a key that does not depend on the caller; the record is still
+ * checked on every read, since deleting it cannot purge other data centers' entries.
+ * Bodies are compressed with br or gzip when the client accepts it; each encoding is a
+ * separate representation with its own ETag.
+ */
+
+import type { RecordStatus } from "../types";
+import { REPORT_CACHE_MAX_AGE_SECONDS } from "../constants";
+import { isFinalStatus } from "./record-status";
+
+/** Internal headers on cache entries; never sent to clients */
+const RECORD_STATUS_HEADER = "X-Report-Status";
+const BUDGET_FAILED_HEADER = "X-Report-Budget-Failed";
+
+const EDGE_CACHE_ORIGIN = "https://report-cache.internal";
+
+/** A serialized report response ready to send or cache */
+export interface CachedReport {
+  body: string;
+  etag: string;
+  /** Status of the record the body was built from */
+  recordStatus: string;
+  budgetFailed: boolean;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export type ContentCoding = "br" | "gzip";
+
+function isFinished(recordStatus: string): boolean {
+  return isFinalStatus(recordStatus as RecordStatus);
+}
+
+/**
+ * Strong ETag: SHA-256 of the exact response body
+ */
+export async function strongEtag(body: string): Promise<string> {
+  return `"${toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body)))}"`;
+}
+
+/**
+ * Whether If-None-Match lists the ETag (or *); W/ prefixes are ignored as RFC 9110 requires
+ */
+export function matchesIfNoneMatch(request: Request, etag: string): boolean {
+  const header = request.headers.get("If-None-Match");
+  if (!header) return false;
+  if (header.trim() === "*") return true;
+  return header.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag);
+}
+
+/**
+ * Preferred encoding from Accept-Encoding (br over gzip at equal q), or null for identity
+ */
+export function negotiateEncoding(request: Request): ContentCoding | null {
+  const header = request.headers.get("Accept-Encoding");
+  if (!header) return null;
+
+  const weights = new Map<string, number>();
+  for (const part of header.split(",")) {
+    const [coding, ...params] = part.trim().toLowerCase().split(";");
+    const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+    const weight = q ? Number(q.slice(2)) : 1;
+    weights.set(coding.trim(), Number.isFinite(weight) ? weight : 0);
+  }
+
+  const weightOf = (coding: ContentCoding) => weights.get(coding) ?? weights.get("*") ?? 0;
+  const best = (["br", "gzip"] as const).reduce((a, b) => (weightOf(b) > weightOf(a) ? b : a));
+  return weightOf(best) > 0 ? best : null;
+}
+
+/**
+ * ETag of the body as sent with the given encoding
+ */
+export function encodedEtag(etag: string, encoding: ContentCoding | null): string {
+  return encoding ? `${etag.slice(0, -1)}-${encoding}"` : etag;
+}
+
+export function reportCacheControl(recordStatus: string): string {
+  return isFinished(recordStatus)
+    ? `private, max-age=${REPORT_CACHE_MAX_AGE_SECONDS}`
+    : "no-store";
+}
+
+/**
+ * JSON response for a report read with ETag and Cache-Control; 304 when the client's copy
+ * is current. Conditional requests only apply to 200 responses. The runtime compresses the
+ * body to match the Content-Encoding set here.
+ */
+export function reportJsonResponse(
+  request: Request,
+  report: Pick<CachedReport, "body" | "etag" | "recordStatus">,
+  status: number = 200
+): Response {
+  const encoding = negotiateEncoding(request);
+  const etag = encodedEtag(report.etag, encoding);
+  const headers: Record<string, string> = {
+    ETag: etag,
+    "Cache-Control": reportCacheControl(report.recordStatus),
+    Vary: "Accept-Encoding",
+  };
+
+  if (status === 200 && matchesIfNoneMatch(request, etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  if (encoding) headers["Content-Encoding"] = encoding;
+  return new Response(report.body, {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+/**
+ * Serializes a value as a report response body and computes its ETag
+ */
+export async function serializeReport(
+  value: unknown,
+  recordStatus: string,
+  budgetFailed: boolean = false
+): Promise<CachedReport> {
+  const body = JSON.stringify(value);
+  return { body, etag: await strongEtag(body), recordStatus, budgetFailed };
+}
+
+/**
+ * Cache key for a report; variant separates differently shaped responses for one record
+ */
+function edgeCacheKey(route: string, publicId: string, variant: string): Request {
+  const key = new URL(`${EDGE_CACHE_ORIGIN}${route}`);
+  key.searchParams.set("id", publicId);
+  if (variant) key.searchParams.set("variant", variant);
+  return new Request(key);
+}
+
+/**
+ * Finished report cached in this data center, if any
+ */
+export async function readCachedReport(
+  route: string,
+  publicId: string,
+  variant: string = ""
+): Promise<CachedReport | null> {
+  const cached = await caches.default.match(edgeCacheKey(route, publicId, variant));
+  if (!cached) return null;
+
+  return {
+    body: await cached.text(),
+    etag: cached.headers.get("ETag") ?? "",
+    recordStatus: cached.headers.get(RECORD_STATUS_HEADER) ?? "completed",
+    budgetFailed: cached.headers.get(BUDGET_FAILED_HEADER) === "true",
+  };
+}
+
+/**
+ * Caches a finished report; anything else is ignored
+ */
+export async function writeCachedReport(
+  route: string,
+  publicId: string,
+  report: CachedReport,
+  variant: string = ""
+): Promise<void> {
+  if (!isFinished(report.recordStatus)) return;
+
+  // The Cache API refuses private entries; clients still get private via reportJsonResponse
+  await caches.default.put(
+    edgeCacheKey(route, publicId, variant),
+    new Response(report.body, {
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": `public, max-age=${REPORT_CACHE_MAX_AGE_SECONDS}`,
+        ETag: report.etag,
+        [RECORD_STATUS_HEADER]: report.recordStatus,
+        [BUDGET_FAILED_HEADER]: String(report.budgetFailed),
+      },
+    })
+  );
+}
+
+/**
+ * Drops a cached report from this data center
+ */
+export async function deleteCachedReport(
+  route: string,
+  publicId: string,
+  variant: string = ""
+): Promise<void> {
+  await caches.default.delete(edgeCacheKey(route, publicId, variant));
+}
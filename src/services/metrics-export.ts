@@ -0,0 +1,248 @@
+/**
+ * OpenMetrics exposition and CSV/NDJSON export of stored report summaries
+ */
+
+import type {
+  ExportFilter,
+  ExportFormat,
+  ExportRow,
+  FormFactor,
+  LabMetric,
+  RecordStatus,
+} from "../types";
+import { LAB_METRIC_AUDITS, PAGESPEED_CATEGORIES } from "../constants";
+import type { StoredRecord } from "./storage";
+import { DEFAULT_AUDIT_OPTIONS } from "./audit-options";
+import { matchesUrlPattern } from "./url-pattern";
+import { normalizeTargetUrl } from "./url-normalization";
+
+export const RECORD_STATUSES: RecordStatus[] = ["pending", "processing", "completed", "failed"];
+
+const EXPORT_FORMATS: ExportFormat[] = ["csv", "ndjson"];
+
+const LAB_METRICS = Object.keys(LAB_METRIC_AUDITS) as LabMetric[];
+
+/**
+ * One row per form factor of a completed record; nothing for records without a summary
+ */
+function recordToExportRows(record: StoredRecord): ExportRow[] {
+  if (record.status !== "completed" || !record.summary) return [];
+  const options = record.options ?? DEFAULT_AUDIT_OPTIONS;
+  return (Object.keys(record.summary) as FormFactor[]).map((formFactor) => {
+    const summary = record.summary![formFactor]!;
+    return {
+      publicId: record.publicId,
+      url: record.url,
+      date: new Date(record.date).toISOString(),
+      formFactor,
+      locale: options.locale,
+      categories: summary.categories,
+      metrics: summary.metrics,
+      lighthouseVersion: summary.lighthouseVersion,
+    };
+  });
+}
+
+/**
+ * Parses an ISO date or epoch milliseconds; null when absent, undefined when invalid
+ */
+export function parseDateParam(value: string | null): number | null | undefined {
+  if (!value) return null;
+  const ms = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(ms) ? ms : undefined;
+}
+
+/**
+ * Parses ?format=, ?from=, ?to= (ISO date or epoch ms), ?url= (exact) and ?urlPattern=
+ */
+export function parseExportParams(
+  params: URLSearchParams,
+  trackingParams: string[]
+): { format: ExportFormat; filter: ExportFilter } | { error: string } {
+  const format = (params.get("format") ?? "csv").toLowerCase() as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return { error: `format must be one of ${EXPORT_FORMATS.join(", ")}` };
+  }
+
+  const from = parseDateParam(params.get("from"));
+  const to = parseDateParam(params.get("to"));
+  if (from === undefined || to === undefined) {
+    return { error: "from and to must be ISO dates or epoch milliseconds" };
+  }
+
+  let url: string | null = null;
+  const urlParam = params.get("url");
+  if (urlParam) {
+    const normalized = normalizeTargetUrl(urlParam, trackingParams);
+    if ("error" in normalized) return { error: normalized.error };
+    url = normalized.url;
+  }
+
+  return { format, filter: { from, to, url, urlPattern: params.get("urlPattern") } };
+}
+
+function matchesExportFilter(record: StoredRecord, filter: ExportFilter): boolean {
+  if (filter.from != null && record.date < filter.from) return false;
+  if (filter.to != null && record.date > filter.to) return false;
+  if (filter.url && record.url !== filter.url) return false;
+  if (filter.urlPattern && !matchesUrlPattern(filter.urlPattern, record.url)) return false;
+  return true;
+}
+
+function csvField(value: string | number | null): string {
+  if (value == null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_HEADER =
+  [
+    "public_id",
+    "url",
+    "date",
+    "form_factor",
+    "locale",
+    ...PAGESPEED_CATEGORIES.map((c) => c.toLowerCase()),
+    ...LAB_METRICS.map((m) => (m === "CLS" ? "cls" : `${m.toLowerCase()}_ms`)),
+    "lighthouse_version",
+  ].join(",") + "\r\n";
+
+/**
+ * Formats a row as a CRLF-terminated CSV line (columns as in CSV_HEADER)
+ */
+function exportRowToCsv(row: ExportRow): string {
+  return (
+    [
+      row.publicId,
+      row.url,
+      row.date,
+      row.formFactor,
+      row.locale,
+      ...PAGESPEED_CATEGORIES.map((c) => row.categories[c] ?? null),
+      ...LAB_METRICS.map((m) => row.metrics[m]),
+      row.lighthouseVersion,
+    ]
+      .map(csvField)
+      .join(",") + "\r\n"
+  );
+}
+
+/**
+ * Yields the export body line by line (header first for CSV)
+ */
+export function* exportLines(
+  records: StoredRecord[],
+  format: ExportFormat,
+  filter: ExportFilter
+): Generator<string> {
+  if (format === "csv") yield CSV_HEADER;
+  for (const record of records) {
+    if (!matchesExportFilter(record, filter)) continue;
+    for (const row of recordToExportRows(record)) {
+      yield format === "csv" ? exportRowToCsv(row) : `${JSON.stringify(row)}\n`;
+    }
+  }
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function labels(values: Record<string, string>): string {
+  const pairs = Object.entries(values).map(([k, v]) => `${k}="${escapeLabelValue(v)}"`);
+  return `{${pairs.join(",")}}`;
+}
+
+/**
+ * Renders OpenMetrics text: record counts by status, and the category scores and lab
+ * metrics of the latest completed report per URL and form factor
+ */
+export function renderOpenMetrics(records: StoredRecord[]): string {
+  const statusCounts = Object.fromEntries(RECORD_STATUSES.map((s) => [s, 0])) as Record<
+    RecordStatus,
+    number
+  >;
+  const latest = new Map<string, ExportRow & { dateMs: number }>();
+
+  for (const record of records) {
+    if (record.status in statusCounts) statusCounts[record.status as RecordStatus]++;
+    for (const row of recordToExportRows(record)) {
+      const key = `${row.url}\n${row.formFactor}`;
+      const current = latest.get(key);
+      if (!current || current.dateMs < record.date) {
+        latest.set(key, { ...row, dateMs: record.date });
+      }
+    }
+  }
+
+  const rows = [...latest.values()].sort(
+    (a, b) => a.url.localeCompare(b.url) || a.formFactor.localeCompare(b.formFactor)
+  );
+  const lines: string[] = [];
+
+  lines.push(
+    "# TYPE pagespeed_records gauge",
+    "# HELP pagespeed_records Stored report records by status."
+  );
+  for (const status of RECORD_STATUSES) {
+    lines.push(`pagespeed_records${labels({ status })} ${statusCounts[status]}`);
+  }
+
+  lines.push(
+    "# TYPE pagespeed_category_score gauge",
+    "# HELP pagespeed_category_score Lighthouse category score (0-100) of the latest completed report."
+  );
+  for (const row of rows) {
+    for (const category of PAGESPEED_CATEGORIES) {
+      const score = row.categories[category];
+      if (score == null) continue;
+      const rowLabels = {
+        url: row.url,
+        form_factor: row.formFactor.toLowerCase(),
+        category: category.toLowerCase(),
+      };
+      lines.push(`pagespeed_category_score${labels(rowLabels)} ${score}`);
+    }
+  }
+
+  lines.push(
+    "# TYPE pagespeed_lab_metric_seconds gauge",
+    "# UNIT pagespeed_lab_metric_seconds seconds",
+    "# HELP pagespeed_lab_metric_seconds Lab timing metric of the latest completed report."
+  );
+  for (const row of rows) {
+    for (const metric of LAB_METRICS) {
+      const value = row.metrics[metric];
+      if (metric === "CLS" || value == null) continue;
+      const rowLabels = {
+        url: row.url,
+        form_factor: row.formFactor.toLowerCase(),
+        metric: metric.toLowerCase(),
+      };
+      lines.push(`pagespeed_lab_metric_seconds${labels(rowLabels)} ${value / 1000}`);
+    }
+  }
+
+  lines.push(
+    "# TYPE pagespeed_cumulative_layout_shift gauge",
+    "# HELP pagespeed_cumulative_layout_shift Lab CLS of the latest completed report."
+  );
+  for (const row of rows) {
+    if (row.metrics.CLS == null) continue;
+    const rowLabels = { url: row.url, form_factor: row.formFactor.toLowerCase() };
+    lines.push(`pagespeed_cumulative_layout_shift${labels(rowLabels)} ${row.metrics.CLS}`);
+  }
+
+  lines.push(
+    "# TYPE pagespeed_report_timestamp_seconds gauge",
+    "# UNIT pagespeed_report_timestamp_seconds seconds",
+    "# HELP pagespeed_report_timestamp_seconds When the latest completed report was created."
+  );
+  for (const row of rows) {
+    const rowLabels = { url: row.url, form_factor: row.formFactor.toLowerCase() };
+    lines.push(`pagespeed_report_timestamp_seconds${labels(rowLabels)} ${row.dateMs / 1000}`);
+  }
+
+  lines.push("# EOF");
+  return `${lines.join("\n")}\n`;
+}
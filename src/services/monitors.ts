@@ -0,0 +1,129 @@
+/**
+ * Recurring monitors: input validation, scheduling and run outcomes
+ */
+
+import type { AuditOptions, Monitor, MonitorFrequency, MonitorStatus, RecordStatus } from "../types";
+import { MONITOR_FREQUENCY_MS, MONITOR_MAX_CONSECUTIVE_FAILURES_DEFAULT } from "../constants";
+import { getMonitor, putMonitor } from "./storage";
+import { parseAuditOptions } from "./audit-options";
+import { normalizeTargetUrl } from "./url-normalization";
+import { isFinalStatus } from "./record-status";
+
+const MONITOR_FREQUENCIES = Object.keys(MONITOR_FREQUENCY_MS) as MonitorFrequency[];
+
+const MONITOR_STATUSES: MonitorStatus[] = ["active", "paused"];
+
+export type MonitorInput = Pick<
+  Monitor,
+  "url" | "frequency" | "options" | "status" | "maxConsecutiveFailures"
+>;
+
+/**
+ * Validates a monitor request body. When existing is given, omitted fields keep their
+ * current values. Options use the same strategy, categories and locale values as ROOT.
+ */
+export function parseMonitorInput(
+  body: any,
+  trackingParams: string[],
+  existing: Monitor | null
+): { input: MonitorInput } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Body must be a JSON object" };
+  }
+
+  let url = existing?.url;
+  if (body.url !== undefined || !existing) {
+    if (typeof body.url !== "string") {
+      return { error: "url is required" };
+    }
+    const normalized = normalizeTargetUrl(body.url, trackingParams);
+    if ("error" in normalized) {
+      return { error: normalized.error };
+    }
+    url = normalized.url;
+  }
+
+  const frequency: MonitorFrequency = body.frequency ?? existing?.frequency;
+  if (!MONITOR_FREQUENCIES.includes(frequency)) {
+    return { error: `frequency must be one of ${MONITOR_FREQUENCIES.join(", ")}` };
+  }
+
+  let options: AuditOptions | undefined = existing?.options;
+  const hasOptions =
+    body.strategy !== undefined || body.categories !== undefined || body.locale !== undefined;
+  if (hasOptions || !existing) {
+    const params = new URLSearchParams();
+    if (typeof body.strategy === "string") params.set("strategy", body.strategy);
+    if (Array.isArray(body.categories)) params.set("categories", body.categories.join(","));
+    else if (typeof body.categories === "string") params.set("categories", body.categories);
+    if (typeof body.locale === "string") params.set("locale", body.locale);
+
+    const parsed = parseAuditOptions(params);
+    if ("error" in parsed) {
+      return { error: parsed.error };
+    }
+    options = parsed.options;
+  }
+
+  const status: MonitorStatus = body.status ?? existing?.status ?? "active";
+  if (!MONITOR_STATUSES.includes(status)) {
+    return { error: `status must be one of ${MONITOR_STATUSES.join(", ")}` };
+  }
+
+  const maxConsecutiveFailures =
+    body.maxConsecutiveFailures ??
+    existing?.maxConsecutiveFailures ??
+    MONITOR_MAX_CONSECUTIVE_FAILURES_DEFAULT;
+  if (!Number.isInteger(maxConsecutiveFailures) || maxConsecutiveFailures < 1) {
+    return { error: "maxConsecutiveFailures must be a positive integer" };
+  }
+
+  return { input: { url: url!, frequency, options: options!, status, maxConsecutiveFailures } };
+}
+
+/**
+ * Next run after the one due at monitor.nextRunAt. Runs missed while the cron was not
+ * firing are not made up; the schedule restarts from now.
+ */
+export function nextMonitorRunAt(monitor: Monitor, now: number): number {
+  const interval = MONITOR_FREQUENCY_MS[monitor.frequency];
+  const next = monitor.nextRunAt + interval;
+  return next > now ? next : now + interval;
+}
+
+/**
+ * Records the final status of a monitor's report. Failures are counted and the monitor
+ * pauses itself at maxConsecutiveFailures; a completed run resets the count. Only the
+ * monitor's latest run counts, and only once.
+ */
+export async function recordMonitorOutcome(
+  monitorId: string,
+  publicId: string,
+  status: Extract<RecordStatus, "completed" | "failed">,
+  env: Env
+): Promise<void> {
+  const monitor = await getMonitor(monitorId, env);
+  if (!monitor || monitor.lastPublicId !== publicId) return;
+  if (monitor.lastRunStatus && isFinalStatus(monitor.lastRunStatus)) return;
+
+  const consecutiveFailures = status === "failed" ? monitor.consecutiveFailures + 1 : 0;
+  const shouldPause =
+    monitor.status === "active" && consecutiveFailures >= monitor.maxConsecutiveFailures;
+  if (shouldPause) {
+    console.warn(`Monitor ${monitorId}: ${consecutiveFailures} consecutive failures, pausing`);
+  }
+
+  await putMonitor(
+    {
+      ...monitor,
+      lastRunStatus: status,
+      consecutiveFailures,
+      status: shouldPause ? "paused" : monitor.status,
+      pausedReason: shouldPause
+        ? `Paused after ${consecutiveFailures} consecutive failed runs`
+        : monitor.pausedReason,
+      updatedAt: Date.now(),
+    },
+    env
+  );
+}
@@ -1,47 +1,181 @@
 /**
  * PageSpeed Insights API client
+ *
+ * PAGESPEED_CLIENT selects how requests are made: "live" (default) calls
+ * PAGESPEED_API_BASE_URL, "fake" answers from fixtures (see pagespeed-fake.ts).
  */
 
-import type { FormFactor, PageSpeedApiResponse } from "../types";
-import { PAGESPEED_API_BASE_URL, PAGESPEED_CATEGORIES } from "../constants";
+import type {
+  AuditOptions,
+  FormFactor,
+  PageSpeedErrorClass,
+  PageSpeedFetchResult,
+} from "../types";
+import {
+  PAGESPEED_API_BASE_URL,
+  PAGESPEED_MAX_ATTEMPTS,
+  PAGESPEED_MAX_RETRY_DELAY_MS,
+  PAGESPEED_RETRY_BASE_DELAY_MS,
+  PAGESPEED_RETRY_JITTER_MS,
+  PAGESPEED_TIMEOUT_MS,
+} from "../constants";
+import { DEFAULT_AUDIT_OPTIONS } from "./audit-options";
+import { createFakePageSpeedClient, fakePageSpeedConfigFromEnv } from "./pagespeed-fake";
+
+/** Where and how fetchPageSpeedData sends its requests */
+export interface PageSpeedClient {
+  baseUrl: string;
+  fetch(url: string, init: RequestInit): Promise<Response>;
+}
+
+export const LIVE_PAGESPEED_CLIENT: PageSpeedClient = {
+  baseUrl: PAGESPEED_API_BASE_URL,
+  fetch: (url, init) => fetch(url, init),
+};
+
+/**
+ * Client for a report run: the fake when PAGESPEED_CLIENT is "fake", else the live API
+ * at PAGESPEED_API_BASE_URL (the var, when set, overrides the constant)
+ */
+export function pageSpeedClientFromEnv(env: Env): PageSpeedClient {
+  const mode: string = env.PAGESPEED_CLIENT ?? "live";
+  if (mode === "fake") {
+    return createFakePageSpeedClient(fakePageSpeedConfigFromEnv(env));
+  }
+  return env.PAGESPEED_API_BASE_URL
+    ? { ...LIVE_PAGESPEED_CLIENT, baseUrl: env.PAGESPEED_API_BASE_URL }
+    : LIVE_PAGESPEED_CLIENT;
+}
 
 /**
- * Builds the PageSpeed Insights API URL with query parameters
+ * Builds the PageSpeed Insights API URL with query parameters.
+ * testUrl must already be canonical (see normalizeTargetUrl); URLSearchParams does the encoding.
  */
 export function buildPageSpeedApiUrl(
   testUrl: string,
   formFactor: FormFactor,
-  apiKey: string
+  apiKey: string,
+  options: AuditOptions = DEFAULT_AUDIT_OPTIONS,
+  baseUrl: string = PAGESPEED_API_BASE_URL
 ): string {
-  const url = new URL(PAGESPEED_API_BASE_URL);
-  url.searchParams.append("url", encodeURI(testUrl));
+  const url = new URL(baseUrl);
+  url.searchParams.append("url", testUrl);
   
-  PAGESPEED_CATEGORIES.forEach((category) => {
+  options.categories.forEach((category) => {
     url.searchParams.append("category", category);
   });
   
   url.searchParams.append("key", apiKey);
   url.searchParams.append("strategy", formFactor);
+
+  if (options.locale) {
+    url.searchParams.append("locale", options.locale);
+  }
   
   return url.toString();
 }
 
+/** Error classes worth retrying; the others will fail the same way again */
+const RETRYABLE_ERROR_CLASSES = new Set<PageSpeedErrorClass>(["quota", "timeout", "upstream_5xx"]);
+
+/** Lighthouse runtime errors meaning the target page could not be loaded */
+const UNREACHABLE_PATTERN =
+  /DNS_FAILURE|FAILED_DOCUMENT_REQUEST|ERRORED_DOCUMENT_REQUEST|NO_DOCUMENT_REQUEST|INSECURE_DOCUMENT_REQUEST|NOT_HTML|NO_FCP|PAGE_HUNG|CHROME_INTERSTITIAL_ERROR|UNABLE TO REACH|UNREACHABLE/;
+
+/**
+ * Classifies a non-OK PageSpeed API response from its status and body
+ */
+export function classifyPageSpeedError(status: number, body: string): PageSpeedErrorClass {
+  const text = body.toUpperCase();
+  if (status === 429 || /RATE_?LIMIT|QUOTA/.test(text)) return "quota";
+  if (UNREACHABLE_PATTERN.test(text)) return "unreachable";
+  if (/PROTOCOL_TIMEOUT|DEADLINE_EXCEEDED|TIMED OUT/.test(text) || status === 504) return "timeout";
+  if (status === 400 && /INVALID|URL/.test(text)) return "invalid_url";
+  if (status >= 500) return "upstream_5xx";
+  return "unknown";
+}
+
+/**
+ * Parses a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before the next attempt: Retry-After when given, else exponential backoff,
+ * with +/-50% jitter. null when the wait would exceed PAGESPEED_MAX_RETRY_DELAY_MS.
+ */
+function retryDelayMs(attempt: number, retryAfterMs: number | null): number | null {
+  if (retryAfterMs != null) {
+    return retryAfterMs > PAGESPEED_MAX_RETRY_DELAY_MS
+      ? null
+      : retryAfterMs + Math.random() * PAGESPEED_RETRY_JITTER_MS;
+  }
+  const backoff = PAGESPEED_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(PAGESPEED_MAX_RETRY_DELAY_MS, backoff * (0.5 + Math.random()));
+}
+
 /**
- * Fetches PageSpeed Insights data for a given URL and form factor
+ * Fetches PageSpeed Insights data for a given URL and form factor.
+ * Retries quota, timeout and 5xx errors up to PAGESPEED_MAX_ATTEMPTS; never throws.
  */
 export async function fetchPageSpeedData(
   requestUrl: string,
   formFactor: FormFactor,
-  apiKey: string
-): Promise<PageSpeedApiResponse> {
-  const url = buildPageSpeedApiUrl(requestUrl, formFactor, apiKey);
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`PageSpeed API error (${response.status}):`, errorText);
-    return { error: errorText };
+  apiKey: string,
+  options: AuditOptions = DEFAULT_AUDIT_OPTIONS,
+  client: PageSpeedClient = LIVE_PAGESPEED_CLIENT
+): Promise<PageSpeedFetchResult> {
+  const url = buildPageSpeedApiUrl(requestUrl, formFactor, apiKey, options, client.baseUrl);
+
+  for (let attempt = 1; ; attempt++) {
+    let error: string;
+    let errorClass: PageSpeedErrorClass;
+    let retryAfterMs: number | null = null;
+
+    try {
+      const response = await client.fetch(url, {
+        signal: AbortSignal.timeout(PAGESPEED_TIMEOUT_MS),
+      });
+
+      if (response.ok) {
+        return { data: await response.json(), error: null, errorClass: null, attempts: attempt };
+      }
+
+      error = await response.text();
+      errorClass = classifyPageSpeedError(response.status, error);
+      retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+      console.error(
+        `PageSpeed API error (${response.status}, ${errorClass}, ${formFactor} attempt ${attempt}):`,
+        error
+      );
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      errorClass = e instanceof Error && e.name === "TimeoutError" ? "timeout" : "unknown";
+      console.error(`PageSpeed API request failed (${errorClass}, ${formFactor} attempt ${attempt}):`, error);
+    }
+
+    const delay =
+      attempt < PAGESPEED_MAX_ATTEMPTS && RETRYABLE_ERROR_CLASSES.has(errorClass)
+        ? retryDelayMs(attempt, retryAfterMs)
+        : null;
+
+    if (delay === null) {
+      return { data: null, error, errorClass, attempts: attempt };
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, delay));
   }
-  
-  return response.json();
+}
+
+/**
+ * Whether a failed fetch could succeed if the whole report is retried later
+ */
+export function isRetryableFetchResult(result: PageSpeedFetchResult): boolean {
+  return result.errorClass !== null && RETRYABLE_ERROR_CLASSES.has(result.errorClass);
 }
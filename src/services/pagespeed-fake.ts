@@ -0,0 +1,156 @@
+/**
+ * Fixture-backed stand-in for the PageSpeed Insights API
+ *
+ * Answers runPagespeed requests with the Lighthouse JSON in src/fixtures, rewritten for
+ * the requested URL, strategy, categories and locale. It can add latency and fail with
+ * 429s, 500s or malformed bodies so retries and error handling run without the network.
+ */
+
+import type { FormFactor } from "../types";
+import type { PageSpeedClient } from "./pagespeed-api";
+import { lighthouseCategoryId } from "./summary";
+import mobileFixture from "../fixtures/pagespeed-mobile.json";
+import desktopFixture from "../fixtures/pagespeed-desktop.json";
+
+export type FakePageSpeedFailure = "none" | "rate_limit" | "server_error" | "malformed";
+
+export interface FakePageSpeedConfig {
+  /** Delay before each response */
+  latencyMs: number;
+  failure: FakePageSpeedFailure;
+  /** Attempts per URL and strategy that fail before one succeeds; Infinity fails them all */
+  failAttempts: number;
+}
+
+const FAKE_FAILURES: FakePageSpeedFailure[] = ["none", "rate_limit", "server_error", "malformed"];
+
+const FIXTURES: Record<FormFactor, unknown> = {
+  MOBILE: mobileFixture,
+  DESKTOP: desktopFixture,
+};
+
+/** Base URL the fake client builds request URLs against; never fetched */
+export const FAKE_PAGESPEED_BASE_URL = "https://pagespeed.fake/pagespeedonline/v5/runPagespeed";
+
+/**
+ * Reads PAGESPEED_FAKE_LATENCY_MS, PAGESPEED_FAKE_FAILURE and PAGESPEED_FAKE_FAIL_ATTEMPTS
+ */
+export function fakePageSpeedConfigFromEnv(env: Env): FakePageSpeedConfig {
+  const latencyMs = Number(env.PAGESPEED_FAKE_LATENCY_MS ?? 0);
+  const failure = FAKE_FAILURES.includes(env.PAGESPEED_FAKE_FAILURE as FakePageSpeedFailure)
+    ? (env.PAGESPEED_FAKE_FAILURE as FakePageSpeedFailure)
+    : "none";
+  const failAttempts = env.PAGESPEED_FAKE_FAIL_ATTEMPTS
+    ? Number(env.PAGESPEED_FAKE_FAIL_ATTEMPTS)
+    : Infinity;
+
+  return {
+    latencyMs: Number.isFinite(latencyMs) && latencyMs > 0 ? latencyMs : 0,
+    failure,
+    failAttempts: Number.isFinite(failAttempts) && failAttempts >= 0 ? failAttempts : Infinity,
+  };
+}
+
+function sleep(ms: number, signal: AbortSignal | null | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+}
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+function failureResponse(failure: Exclude<FakePageSpeedFailure, "none">): Response {
+  switch (failure) {
+    case "rate_limit":
+      return jsonResponse(
+        429,
+        { error: { code: 429, message: "Quota exceeded for quota metric 'Queries'.", status: "RESOURCE_EXHAUSTED" } },
+        { "Retry-After": "1" }
+      );
+    case "server_error":
+      return jsonResponse(500, {
+        error: { code: 500, message: "Lighthouse returned error: Something went wrong.", status: "INTERNAL" },
+      });
+    case "malformed":
+      return new Response('{"kind":"pagespeedonline#result","lighthouseResult":{"audits":', {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+  }
+}
+
+/**
+ * The fixture for the request's strategy, rewritten for its URL, categories and locale
+ */
+function fixtureResponse(params: URLSearchParams): Response {
+  const testUrl = params.get("url");
+  if (!testUrl) {
+    return jsonResponse(400, {
+      error: { code: 400, message: "Invalid value at 'url'", status: "INVALID_ARGUMENT" },
+    });
+  }
+
+  const formFactor = (params.get("strategy") ?? "MOBILE").toUpperCase() as FormFactor;
+  const body: any = structuredClone(FIXTURES[formFactor] ?? FIXTURES.MOBILE);
+  const lighthouse = body.lighthouseResult;
+
+  body.id = testUrl;
+  body.loadingExperience.id = testUrl;
+  body.loadingExperience.initial_url = testUrl;
+  body.analysisUTCTimestamp = new Date().toISOString();
+  lighthouse.requestedUrl = testUrl;
+  lighthouse.finalUrl = testUrl;
+  lighthouse.mainDocumentUrl = testUrl;
+  lighthouse.finalDisplayedUrl = testUrl;
+  lighthouse.fetchTime = body.analysisUTCTimestamp;
+
+  const requested = params.getAll("category").map(lighthouseCategoryId);
+  if (requested.length > 0) {
+    for (const id of Object.keys(lighthouse.categories)) {
+      if (!requested.includes(id)) delete lighthouse.categories[id];
+    }
+    lighthouse.configSettings.onlyCategories = requested;
+  }
+
+  const locale = params.get("locale");
+  if (locale) lighthouse.configSettings.locale = locale;
+
+  return jsonResponse(200, body);
+}
+
+/**
+ * Creates a fake client. Failed-attempt counts are kept per client, so a client
+ * created for one report run fails the first failAttempts requests of each strategy.
+ */
+export function createFakePageSpeedClient(config: FakePageSpeedConfig): PageSpeedClient {
+  const attempts = new Map<string, number>();
+
+  return {
+    baseUrl: FAKE_PAGESPEED_BASE_URL,
+    async fetch(url, init) {
+      if (config.latencyMs > 0) {
+        await sleep(config.latencyMs, init.signal);
+      }
+
+      const params = new URL(url).searchParams;
+      const key = `${params.get("strategy")}\n${params.get("url")}`;
+      const attempt = (attempts.get(key) ?? 0) + 1;
+      attempts.set(key, attempt);
+
+      if (config.failure !== "none" && attempt <= config.failAttempts) {
+        return failureResponse(config.failure);
+      }
+      return fixtureResponse(params);
+    },
+  };
+}
@@ -0,0 +1,337 @@
+/**
+ * Report creation rate limits and daily quotas
+ *
+ * Fixed windows counted by the USAGE_COUNTER Durable Object (KV when it is not bound):
+ * - per client token: RATE_LIMIT_REPORTS_PER_MINUTE and RATE_LIMIT_REPORTS_PER_DAY (UTC day)
+ * - per target URL: RATE_LIMIT_TARGET_REAUDITS_PER_HOUR
+ * Only newly created reports count; cached and in-progress responses are free.
+ * The KV fallback cannot enforce limits exactly: reads may be stale and concurrent
+ * requests race between the read and the write.
+ */
+
+import type {
+  BatchQuotaDecision,
+  ClientUsage,
+  RateLimitDecision,
+  RateLimitReason,
+  UsageCounterIncrement,
+  UsageCounterResult,
+} from "../types";
+import { DEFAULT_RATE_LIMITS, USAGE_COUNTER_NAME } from "../constants";
+import { getUsageCount, incrementUsageCount, listUsageCounts } from "./storage";
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** KV expirationTtl must be at least 60 seconds */
+const MIN_TTL_SECONDS = 60;
+
+interface WindowSpec {
+  reason: RateLimitReason;
+  window: string;
+  subject: string;
+  limit: number;
+  resetAt: number;
+}
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+function limits(env: Env) {
+  return {
+    perMinute: positiveInt(env.RATE_LIMIT_REPORTS_PER_MINUTE, DEFAULT_RATE_LIMITS.REPORTS_PER_MINUTE),
+    perDay: positiveInt(env.RATE_LIMIT_REPORTS_PER_DAY, DEFAULT_RATE_LIMITS.REPORTS_PER_DAY),
+    targetPerHour: positiveInt(
+      env.RATE_LIMIT_TARGET_REAUDITS_PER_HOUR,
+      DEFAULT_RATE_LIMITS.TARGET_REAUDITS_PER_HOUR
+    ),
+  };
+}
+
+function dayWindow(now: number): string {
+  return `day:${new Date(now).toISOString().slice(0, 10)}`;
+}
+
+function clientSubject(clientId: string): string {
+  return `client:${clientId}`;
+}
+
+function minuteSpec(clientId: string, env: Env, now: number): WindowSpec {
+  const minute = Math.floor(now / MINUTE_MS);
+  return {
+    reason: "client_minute",
+    window: `minute:${minute}`,
+    subject: clientSubject(clientId),
+    limit: limits(env).perMinute,
+    resetAt: (minute + 1) * MINUTE_MS,
+  };
+}
+
+function daySpec(clientId: string, env: Env, now: number): WindowSpec {
+  const day = Math.floor(now / DAY_MS);
+  return {
+    reason: "client_day",
+    window: dayWindow(now),
+    subject: clientSubject(clientId),
+    limit: limits(env).perDay,
+    resetAt: (day + 1) * DAY_MS,
+  };
+}
+
+function targetSpec(targetUrl: string, env: Env, now: number): WindowSpec {
+  const hour = Math.floor(now / HOUR_MS);
+  return {
+    reason: "target_hour",
+    window: `hour:${hour}`,
+    subject: `target:${encodeURIComponent(targetUrl)}`,
+    limit: limits(env).targetPerHour,
+    resetAt: (hour + 1) * HOUR_MS,
+  };
+}
+
+function ttlSeconds(resetAt: number, now: number): number {
+  return Math.max(MIN_TTL_SECONDS, Math.ceil((resetAt - now) / 1000));
+}
+
+function counterKey(spec: WindowSpec): string {
+  return `${spec.window}:${spec.subject}`;
+}
+
+function usageCounter(env: Env) {
+  return env.USAGE_COUNTER.get(env.USAGE_COUNTER.idFromName(USAGE_COUNTER_NAME));
+}
+
+/**
+ * Counts `by` against every window when each has `need` room left; otherwise counts nothing
+ */
+async function consumeWindows(
+  windows: Array<{ spec: WindowSpec; by: number; need: number }>,
+  env: Env
+): Promise<UsageCounterResult> {
+  if (env.USAGE_COUNTER) {
+    const increments: UsageCounterIncrement[] = windows.map(({ spec, by, need }) => ({
+      key: counterKey(spec),
+      limit: spec.limit,
+      resetAt: spec.resetAt,
+      by,
+      need,
+    }));
+    return usageCounter(env).consume(increments);
+  }
+
+  const now = Date.now();
+  const used = await Promise.all(
+    windows.map(({ spec }) => getUsageCount(spec.window, spec.subject, env))
+  );
+  const index = windows.findIndex(({ spec, need }, i) => used[i] + need > spec.limit);
+  if (index !== -1) return { allowed: false, index, used: used[index] };
+
+  const counts = await Promise.all(
+    windows.map(({ spec, by }) =>
+      incrementUsageCount(spec.window, spec.subject, ttlSeconds(spec.resetAt, now), env, by)
+    )
+  );
+  return { allowed: true, counts };
+}
+
+/**
+ * Current counts for the windows
+ */
+async function readWindows(specs: WindowSpec[], env: Env): Promise<number[]> {
+  if (env.USAGE_COUNTER) return usageCounter(env).counts(specs.map(counterKey));
+  return Promise.all(specs.map((spec) => getUsageCount(spec.window, spec.subject, env)));
+}
+
+/**
+ * Turns a consume result into a decision; an allowed one reports the window with the
+ * least headroom left
+ */
+function toDecision(specs: WindowSpec[], result: UsageCounterResult): RateLimitDecision {
+  if (!result.allowed) {
+    const spec = specs[result.index];
+    return {
+      allowed: false,
+      reason: spec.reason,
+      window: { used: result.used, limit: spec.limit, resetAt: spec.resetAt },
+    };
+  }
+
+  const { counts } = result;
+  let tightest = 0;
+  specs.forEach((spec, i) => {
+    if (spec.limit - counts[i] < specs[tightest].limit - counts[tightest]) tightest = i;
+  });
+  return {
+    allowed: true,
+    reason: null,
+    window: { used: counts[tightest], limit: specs[tightest].limit, resetAt: specs[tightest].resetAt },
+  };
+}
+
+/**
+ * Checks every window and, when all have room, counts one new report against each
+ */
+export async function consumeReportQuota(
+  clientId: string,
+  targetUrl: string,
+  env: Env
+): Promise<RateLimitDecision> {
+  const now = Date.now();
+  const specs = [
+    minuteSpec(clientId, env, now),
+    daySpec(clientId, env, now),
+    targetSpec(targetUrl, env, now),
+  ];
+  const result = await consumeWindows(
+    specs.map((spec) => ({ spec, by: 1, need: 1 })),
+    env
+  );
+  return toDecision(specs, result);
+}
+
+/**
+ * X-RateLimit-* headers (plus Retry-After when the request was refused)
+ */
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const { used, limit, resetAt } = decision.window;
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(limit),
+    "X-RateLimit-Remaining": String(Math.max(0, limit - used)),
+    "X-RateLimit-Reset": String(Math.ceil(resetAt / 1000)),
+  };
+  if (!decision.allowed) {
+    headers["Retry-After"] = String(Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)));
+  }
+  return headers;
+}
+
+/**
+ * Current minute and day usage for one client
+ */
+export async function getClientUsage(clientId: string, env: Env): Promise<ClientUsage> {
+  const now = Date.now();
+  const [minute, day] = [minuteSpec(clientId, env, now), daySpec(clientId, env, now)];
+  const [minuteUsed, dayUsed] = await readWindows([minute, day], env);
+
+  return {
+    clientId,
+    minute: { used: minuteUsed, limit: minute.limit, resetAt: minute.resetAt },
+    day: { used: dayUsed, limit: day.limit, resetAt: day.resetAt },
+  };
+}
+
+/**
+ * Today's usage for every client that created a report
+ */
+export async function listClientUsage(env: Env): Promise<ClientUsage[]> {
+  const now = Date.now();
+  const day = daySpec("", env, now);
+  const counts = env.USAGE_COUNTER
+    ? (await usageCounter(env).list(`${day.window}:client:`)).map(({ key, count }) => ({
+        subject: key.slice(`${day.window}:`.length),
+        count,
+      }))
+    : await listUsageCounts(day.window, "client:", env);
+
+  return counts
+    .map(({ subject, count }) => ({
+      clientId: subject.slice("client:".length),
+      minute: null,
+      day: { used: count, limit: day.limit, resetAt: day.resetAt },
+    }))
+    .sort((a, b) => b.day.used - a.day.used);
+}
+
+/**
+ * Counts a batch of new reports: the whole batch against the client's daily quota, and
+ * each URL against its target's re-audit limit. URLs whose target window is already full
+ * are left out (targetLimited) rather than refusing the batch. The per-minute window only
+ * needs room for one report, since a batch is one request, but the batch still counts
+ * against it.
+ */
+export async function consumeBatchQuota(
+  clientId: string,
+  targetUrls: string[],
+  env: Env
+): Promise<BatchQuotaDecision> {
+  const now = Date.now();
+  const targets = targetUrls.map((url) => targetSpec(url, env, now));
+  const targetUsed = await readWindows(targets, env);
+
+  const counted: string[] = [];
+  const countedSpecs: WindowSpec[] = [];
+  const targetLimited: BatchQuotaDecision["targetLimited"] = [];
+  targets.forEach((spec, i) => {
+    if (targetUsed[i] < spec.limit) {
+      counted.push(targetUrls[i]);
+      countedSpecs.push(spec);
+    } else {
+      targetLimited.push({ url: targetUrls[i], resetAt: spec.resetAt });
+    }
+  });
+
+  if (counted.length === 0) {
+    const spec = targets[0];
+    return {
+      allowed: false,
+      reason: "target_hour",
+      window: { used: targetUsed[0], limit: spec.limit, resetAt: spec.resetAt },
+      counted,
+      targetLimited,
+    };
+  }
+
+  const n = counted.length;
+  const specs = [minuteSpec(clientId, env, now), daySpec(clientId, env, now), ...countedSpecs];
+  const result = await consumeWindows(
+    [
+      { spec: specs[0], by: n, need: 1 },
+      { spec: specs[1], by: n, need: n },
+      ...countedSpecs.map((spec) => ({ spec, by: 1, need: 1 })),
+    ],
+    env
+  );
+  const decision = toDecision(specs, result);
+  return decision.allowed
+    ? { ...decision, counted, targetLimited }
+    : { ...decision, counted: [], targetLimited };
+}
+
+/**
+ * Takes back reports consumeBatchQuota counted but that were never queued
+ */
+export async function refundBatchQuota(
+  clientId: string,
+  targetUrls: string[],
+  env: Env
+): Promise<void> {
+  if (targetUrls.length === 0) return;
+  const now = Date.now();
+  const n = targetUrls.length;
+  const refunds = [
+    { spec: minuteSpec(clientId, env, now), by: n },
+    { spec: daySpec(clientId, env, now), by: n },
+    ...targetUrls.map((url) => ({ spec: targetSpec(url, env, now), by: 1 })),
+  ];
+
+  if (env.USAGE_COUNTER) {
+    await usageCounter(env).refund(refunds.map(({ spec, by }) => ({ key: counterKey(spec), by })));
+    return;
+  }
+
+  const used = await readWindows(refunds.map(({ spec }) => spec), env);
+  await Promise.all(
+    refunds.map(({ spec, by }, i) =>
+      incrementUsageCount(
+        spec.window,
+        spec.subject,
+        ttlSeconds(spec.resetAt, now),
+        env,
+        -Math.min(by, used[i])
+      )
+    )
+  );
+}
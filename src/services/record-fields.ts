@@ -0,0 +1,83 @@
+/**
+ * Field selection for record responses (?fields= and ?include=raw)
+ *
+ * Records are returned as metadata plus summary by default; the full PSI responses (data)
+ * are read from R2 only when a client asks for them.
+ */
+
+import type { RecordResponse } from "../types";
+
+type RecordField = keyof RecordResponse;
+
+const RECORD_FIELDS: readonly RecordField[] = [
+  "publicId",
+  "url",
+  "formFactor",
+  "options",
+  "status",
+  "dataUrl",
+  "data",
+  "processingStartedAt",
+  "summary",
+  "fieldData",
+  "resultKeys",
+  "budgetResult",
+  "fetchOutcomes",
+  "error",
+  "errorClass",
+];
+
+export interface RecordResponseShape {
+  /** Whether data is read from R2 */
+  includeRaw: boolean;
+  /** Fields to return; null for all of them */
+  fields: RecordField[] | null;
+}
+
+/**
+ * Parses ?fields= (comma-separated RecordResponse keys) and ?include=raw.
+ * Asking for data in fields is the same as include=raw.
+ */
+export function parseRecordResponseShape(
+  params: URLSearchParams
+): RecordResponseShape | { error: string } {
+  const include = params.get("include");
+  if (include != null && include !== "raw") {
+    return { error: "Invalid include parameter. Must be raw." };
+  }
+
+  const fieldsParam = params.get("fields");
+  let fields: RecordField[] | null = null;
+  if (fieldsParam != null) {
+    const requested = fieldsParam.split(",").map((f) => f.trim()).filter(Boolean);
+    const unknown = requested.filter((f) => !RECORD_FIELDS.includes(f as RecordField));
+    if (requested.length === 0 || unknown.length > 0) {
+      return {
+        error: `Invalid fields parameter${unknown.length ? `: ${unknown.join(", ")}` : ""}. Must be a comma-separated list of ${RECORD_FIELDS.join(", ")}.`,
+      };
+    }
+    fields = [...new Set(requested as RecordField[])];
+  }
+
+  // include=raw adds data to an explicit field list
+  if (include === "raw" && fields && !fields.includes("data")) fields.push("data");
+  return { includeRaw: include === "raw" || !!fields?.includes("data"), fields };
+}
+
+/**
+ * Key distinguishing responses of different shapes for the same record (used in cache keys)
+ */
+export function recordResponseVariant(shape: RecordResponseShape): string {
+  return `${shape.includeRaw ? "raw" : "lite"}:${shape.fields?.join(",") ?? "*"}`;
+}
+
+/**
+ * The response restricted to the selected fields
+ */
+export function selectRecordFields(
+  response: RecordResponse,
+  fields: RecordField[] | null
+): Partial<RecordResponse> {
+  if (!fields) return response;
+  return Object.fromEntries(fields.map((field) => [field, response[field]]));
+}
@@ -0,0 +1,27 @@
+/**
+ * Record status transitions
+ *
+ * pending -> processing -> completed | failed. A run that will be retried goes from
+ * processing back to pending, and a job that exhausts its retries can fail from pending.
+ * completed and failed are final, so a late writer cannot move a record backwards.
+ */
+
+import type { RecordStatus } from "../types";
+
+const ALLOWED_TRANSITIONS: Record<RecordStatus, RecordStatus[]> = {
+  pending: ["pending", "processing", "failed"],
+  processing: ["processing", "pending", "completed", "failed"],
+  completed: [],
+  failed: [],
+};
+
+export function isFinalStatus(status: RecordStatus): boolean {
+  return status === "completed" || status === "failed";
+}
+
+/**
+ * Whether a record may move from one status to another
+ */
+export function canTransition(from: RecordStatus, to: RecordStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
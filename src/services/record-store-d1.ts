@@ -0,0 +1,249 @@
+/**
+ * D1 record store on PageSpeedInsightsTable (see migrations/)
+ * The full record is kept as JSON in `record`; url, date, status, processingStartedAt and
+ * optionsKey are columns so filtering and sorting happen in SQL.
+ */
+
+import type { HistoryEntry, HistoryPage, RecordListPage, RecordStatus } from "../types";
+import type { StoredRecord } from "./storage";
+import type { RecordListFilter, RecordPageQuery, RecordStore } from "./record-store";
+import { auditOptionsKey, DEFAULT_AUDIT_OPTIONS } from "./audit-options";
+import { headlineScores } from "./summary";
+
+const TABLE = "PageSpeedInsightsTable";
+
+/** D1 limits bound parameters per statement; deletes are chunked below this */
+const DELETE_CHUNK_SIZE = 50;
+
+interface RecordRow {
+  publicId: string;
+  url: string;
+  formFactor: string;
+  date: number;
+  status: string;
+  dataUrl: string | null;
+  processingStartedAt: number | null;
+  record: string | null;
+}
+
+const SELECT_COLUMNS =
+  "publicId, url, formFactor, date, status, dataUrl, processingStartedAt, record";
+
+/**
+ * Rows written before the record column existed are rebuilt from their columns
+ */
+function rowToRecord(row: RecordRow): StoredRecord {
+  const stored: Partial<StoredRecord> = row.record ? JSON.parse(row.record) : {};
+  return {
+    ...stored,
+    publicId: row.publicId,
+    url: row.url,
+    formFactor: row.formFactor,
+    date: row.date,
+    status: row.status,
+    dataUrl: row.dataUrl ?? "",
+    processingStartedAt: row.processingStartedAt ?? null,
+  };
+}
+
+function recordColumns(record: StoredRecord): unknown[] {
+  return [
+    record.url,
+    record.formFactor,
+    record.date,
+    record.status,
+    record.dataUrl,
+    record.processingStartedAt,
+    auditOptionsKey(record.options ?? DEFAULT_AUDIT_OPTIONS),
+    JSON.stringify(record),
+  ];
+}
+
+/**
+ * History cursor: date and publicId of the last entry returned (keyset pagination)
+ */
+function encodeHistoryCursor(entry: HistoryEntry): string {
+  return `${entry.date}:${entry.publicId}`;
+}
+
+function decodeHistoryCursor(cursor: string): { date: number; publicId: string } | null {
+  const separator = cursor.indexOf(":");
+  const date = Number(cursor.slice(0, separator));
+  if (separator < 1 || !Number.isFinite(date)) return null;
+  return { date, publicId: cursor.slice(separator + 1) };
+}
+
+/**
+ * LIKE pattern matching URLs that start with prefix; used with ESCAPE '\'
+ */
+function likePrefix(prefix: string): string {
+  return `${prefix.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+export function createD1RecordStore(db: D1Database): RecordStore {
+  async function selectRecords(where: string, params: unknown[], suffix = ""): Promise<StoredRecord[]> {
+    const { results } = await db
+      .prepare(`SELECT ${SELECT_COLUMNS} FROM ${TABLE} WHERE ${where} ${suffix}`)
+      .bind(...params)
+      .all<RecordRow>();
+    return results.map(rowToRecord);
+  }
+
+  return {
+    async create(record) {
+      // `data` is NOT NULL in the original schema; results live in R2
+      await db
+        .prepare(
+          `INSERT INTO ${TABLE} (url, formFactor, date, status, dataUrl, processingStartedAt, optionsKey, record, publicId, data)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, '')`
+        )
+        .bind(...recordColumns(record), record.publicId)
+        .run();
+    },
+
+    async update(record) {
+      const result = await db
+        .prepare(
+          `UPDATE ${TABLE}
+           SET url = ?, formFactor = ?, date = ?, status = ?, dataUrl = ?, processingStartedAt = ?, optionsKey = ?, record = ?
+           WHERE publicId = ?`
+        )
+        .bind(...recordColumns(record), record.publicId)
+        .run();
+      return result.meta.changes > 0;
+    },
+
+    async get(publicId) {
+      const [record] = await selectRecords("publicId = ?", [publicId], "LIMIT 1");
+      return record ?? null;
+    },
+
+    async getLatestByUrl(url, options) {
+      const [record] = await selectRecords(
+        "url = ? AND optionsKey = ?",
+        [url, auditOptionsKey(options)],
+        "ORDER BY date DESC, id DESC LIMIT 1"
+      );
+      return record ?? null;
+    },
+
+    async getHistory(url, page): Promise<HistoryPage> {
+      const after = page.cursor ? decodeHistoryCursor(page.cursor) : null;
+      const where = after
+        ? "url = ? AND (date < ? OR (date = ? AND publicId < ?))"
+        : "url = ?";
+      const params = after ? [url, after.date, after.date, after.publicId] : [url];
+
+      // One extra row tells us whether there is another page
+      const records = await selectRecords(
+        where,
+        [...params, page.limit + 1],
+        "ORDER BY date DESC, publicId DESC LIMIT ?"
+      );
+      const entries: HistoryEntry[] = records.slice(0, page.limit).map((r) => ({
+        publicId: r.publicId,
+        date: r.date,
+        status: r.status as RecordStatus,
+        options: r.options ?? DEFAULT_AUDIT_OPTIONS,
+        scores: headlineScores(r.summary ?? null),
+      }));
+
+      const hasMore = records.length > page.limit;
+      return {
+        url,
+        entries,
+        cursor: hasMore ? encodeHistoryCursor(entries[entries.length - 1]) : null,
+      };
+    },
+
+    async list(filter: RecordListFilter = {}) {
+      const clauses = ["publicId IS NOT NULL"];
+      const params: unknown[] = [];
+      if (filter.status) {
+        clauses.push("status = ?");
+        params.push(filter.status);
+      }
+      if (filter.url) {
+        clauses.push("url = ?");
+        params.push(filter.url);
+      }
+      if (filter.from != null) {
+        clauses.push("date >= ?");
+        params.push(filter.from);
+      }
+      if (filter.to != null) {
+        clauses.push("date <= ?");
+        params.push(filter.to);
+      }
+      return selectRecords(clauses.join(" AND "), params, "ORDER BY date DESC, id DESC");
+    },
+
+    // Same keyset cursor as getHistory
+    async listPage(query: RecordPageQuery): Promise<RecordListPage> {
+      const clauses = ["publicId IS NOT NULL"];
+      const params: unknown[] = [];
+      if (query.status) {
+        clauses.push("status = ?");
+        params.push(query.status);
+      }
+      if (query.urlPrefix) {
+        clauses.push("url LIKE ? ESCAPE '\\'");
+        params.push(likePrefix(query.urlPrefix));
+      }
+      if (query.from != null) {
+        clauses.push("date >= ?");
+        params.push(query.from);
+      }
+      if (query.to != null) {
+        clauses.push("date <= ?");
+        params.push(query.to);
+      }
+      const after = query.cursor ? decodeHistoryCursor(query.cursor) : null;
+      if (after) {
+        clauses.push("(date < ? OR (date = ? AND publicId < ?))");
+        params.push(after.date, after.date, after.publicId);
+      }
+
+      const { results } = await db
+        .prepare(
+          `SELECT publicId, url, formFactor, date, status, processingStartedAt FROM ${TABLE}
+           WHERE ${clauses.join(" AND ")} ORDER BY date DESC, publicId DESC LIMIT ?`
+        )
+        .bind(...params, query.limit + 1)
+        .all<Omit<RecordRow, "dataUrl" | "record">>();
+
+      const records = results.slice(0, query.limit).map((row) => ({
+        publicId: row.publicId,
+        url: row.url,
+        formFactor: row.formFactor,
+        date: row.date,
+        status: row.status as RecordStatus,
+        processingStartedAt: row.processingStartedAt ?? null,
+      }));
+      const last = records[records.length - 1];
+      return {
+        records,
+        cursor: results.length > query.limit ? `${last.date}:${last.publicId}` : null,
+      };
+    },
+
+    async deleteOlderThan(cutoff) {
+      const expired = await selectRecords("date < ? AND publicId IS NOT NULL", [cutoff]);
+      for (let i = 0; i < expired.length; i += DELETE_CHUNK_SIZE) {
+        const chunk = expired.slice(i, i + DELETE_CHUNK_SIZE).map((r) => r.publicId);
+        await db
+          .prepare(`DELETE FROM ${TABLE} WHERE publicId IN (${chunk.map(() => "?").join(", ")})`)
+          .bind(...chunk)
+          .run();
+      }
+      return expired;
+    },
+
+    async findStuck(cutoff) {
+      return selectRecords(
+        "status = 'processing' AND processingStartedAt IS NOT NULL AND processingStartedAt < ?",
+        [cutoff]
+      );
+    },
+  };
+}
@@ -0,0 +1,322 @@
+/**
+ * Workers KV record store
+ * Keys: record:{publicId} -> StoredRecord,
+ * url:{url} (default options) or url:{optionsKey}:{url} -> publicId,
+ * history:{encodedUrl}:{invertedDate}:{publicId} -> publicId (HistoryEntry in metadata),
+ * record-index:{invertedDate}:{publicId} -> publicId (RecordIndexMetadata in metadata),
+ * record-index-complete -> set once records written before the index have been indexed
+ * KV cannot query, so filtering scans the index metadata (newest first) and reads only
+ * the record bodies a caller needs.
+ */
+
+import type {
+  AuditOptions,
+  HistoryEntry,
+  HistoryPage,
+  RecordListEntry,
+  RecordListPage,
+  RecordStatus,
+} from "../types";
+import type { StoredRecord } from "./storage";
+import type { RecordListFilter, RecordPageQuery, RecordStore } from "./record-store";
+import { auditOptionsKey, DEFAULT_AUDIT_OPTIONS } from "./audit-options";
+import { headlineScores } from "./summary";
+
+const KV_PREFIX_RECORD = "record:";
+const KV_PREFIX_URL = "url:";
+const KV_PREFIX_HISTORY = "history:";
+const KV_PREFIX_RECORD_INDEX = "record-index:";
+const KV_RECORD_INDEX_COMPLETE = "record-index-complete";
+
+/** Larger than any millisecond timestamp we will see; used to sort history newest first */
+const HISTORY_MAX_DATE = 9_999_999_999_999;
+
+/** KV list metadata is capped at 1024 bytes; longer URLs are read from the record body */
+const INDEX_MAX_URL_LENGTH = 700;
+
+/** Index metadata; url is omitted when longer than INDEX_MAX_URL_LENGTH */
+type RecordIndexMetadata = Omit<RecordListEntry, "url"> & { url?: string };
+
+interface IndexEntry {
+  key: string;
+  metadata: RecordIndexMetadata;
+}
+
+function recordKey(publicId: string): string {
+  return `${KV_PREFIX_RECORD}${publicId}`;
+}
+
+/**
+ * Latest-report pointer for a URL run with the given options.
+ * Default options keep the original url:{url} form.
+ */
+function urlKey(url: string, options: AuditOptions = DEFAULT_AUDIT_OPTIONS): string {
+  const optionsKey = auditOptionsKey(options);
+  return optionsKey ? `${KV_PREFIX_URL}${optionsKey}:${url}` : `${KV_PREFIX_URL}${url}`;
+}
+
+function historyPrefix(url: string): string {
+  return `${KV_PREFIX_HISTORY}${encodeURIComponent(url)}:`;
+}
+
+function invertedDate(date: number): string {
+  return String(HISTORY_MAX_DATE - date).padStart(13, "0");
+}
+
+/**
+ * KV lists keys in ascending order, so the inverted date puts the newest run first
+ */
+function historyKey(record: StoredRecord): string {
+  return `${historyPrefix(record.url)}${invertedDate(record.date)}:${record.publicId}`;
+}
+
+function indexKey(record: StoredRecord): string {
+  return `${KV_PREFIX_RECORD_INDEX}${invertedDate(record.date)}:${record.publicId}`;
+}
+
+/**
+ * Writes (or overwrites) the URL history entry for a record
+ */
+async function putHistoryEntry(kv: KVNamespace, record: StoredRecord): Promise<void> {
+  const metadata: HistoryEntry = {
+    publicId: record.publicId,
+    date: record.date,
+    status: record.status as RecordStatus,
+    options: record.options ?? DEFAULT_AUDIT_OPTIONS,
+    scores: headlineScores(record.summary ?? null),
+  };
+  await kv.put(historyKey(record), record.publicId, { metadata });
+}
+
+/**
+ * Writes (or overwrites) the listing index entry for a record
+ */
+async function putIndexEntry(kv: KVNamespace, record: StoredRecord): Promise<void> {
+  const metadata: RecordIndexMetadata = {
+    publicId: record.publicId,
+    formFactor: record.formFactor,
+    date: record.date,
+    status: record.status as RecordStatus,
+    processingStartedAt: record.processingStartedAt ?? null,
+  };
+  if (record.url.length <= INDEX_MAX_URL_LENGTH) metadata.url = record.url;
+  await kv.put(indexKey(record), record.publicId, { metadata });
+}
+
+async function getRecord(kv: KVNamespace, publicId: string): Promise<StoredRecord | null> {
+  const raw = await kv.get(recordKey(publicId));
+  return raw ? JSON.parse(raw) : null;
+}
+
+/**
+ * Indexes records written before the index existed. Runs once per namespace (reading
+ * every record body); a per-isolate flag skips the KV check after that.
+ */
+let indexKnownComplete = false;
+
+async function ensureIndexed(kv: KVNamespace): Promise<void> {
+  if (indexKnownComplete) return;
+  if (await kv.get(KV_RECORD_INDEX_COMPLETE)) {
+    indexKnownComplete = true;
+    return;
+  }
+
+  console.log("record-store-kv: backfilling record index");
+  let cursor: string | undefined;
+  do {
+    const list = await kv.list({ prefix: KV_PREFIX_RECORD, cursor, limit: 1000 });
+    for (const key of list.keys) {
+      const raw = await kv.get(key.name);
+      if (raw) await putIndexEntry(kv, JSON.parse(raw));
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+
+  await kv.put(KV_RECORD_INDEX_COMPLETE, String(Date.now()));
+  indexKnownComplete = true;
+}
+
+/**
+ * Yields index entries newest first, one KV list page at a time
+ */
+async function* scanIndex(kv: KVNamespace): AsyncGenerator<IndexEntry> {
+  await ensureIndexed(kv);
+  let cursor: string | undefined;
+  do {
+    const list = await kv.list<RecordIndexMetadata>({
+      prefix: KV_PREFIX_RECORD_INDEX,
+      cursor,
+      limit: 1000,
+    });
+    for (const key of list.keys) {
+      if (key.metadata) yield { key: key.name, metadata: key.metadata };
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+}
+
+/**
+ * Whether an index entry can match; url checks are skipped when the url is not in metadata
+ */
+function indexMatches(
+  metadata: RecordIndexMetadata,
+  filter: RecordListFilter & { urlPrefix?: string }
+): boolean {
+  if (filter.status && metadata.status !== filter.status) return false;
+  if (filter.from != null && metadata.date < filter.from) return false;
+  if (filter.to != null && metadata.date > filter.to) return false;
+  if (metadata.url != null) {
+    if (filter.url && metadata.url !== filter.url) return false;
+    if (filter.urlPrefix && !metadata.url.startsWith(filter.urlPrefix)) return false;
+  }
+  return true;
+}
+
+/**
+ * Listing cursor: the KV cursor of the page to resume in (empty for the first page)
+ * and how many of its keys were already returned
+ */
+function encodePageCursor(kvCursor: string | undefined, skip: number): string {
+  return `${skip}:${kvCursor ?? ""}`;
+}
+
+function decodePageCursor(cursor: string | undefined): { kvCursor?: string; skip: number } {
+  if (!cursor) return { skip: 0 };
+  const separator = cursor.indexOf(":");
+  const skip = Number(cursor.slice(0, separator));
+  if (separator < 1 || !Number.isInteger(skip) || skip < 0) return { skip: 0 };
+  return { kvCursor: cursor.slice(separator + 1) || undefined, skip };
+}
+
+export function createKvRecordStore(kv: KVNamespace): RecordStore {
+  return {
+    async create(record) {
+      await kv.put(recordKey(record.publicId), JSON.stringify(record));
+      await kv.put(urlKey(record.url, record.options), record.publicId);
+      await putHistoryEntry(kv, record);
+      await putIndexEntry(kv, record);
+    },
+
+    async update(record) {
+      const existing = await kv.get(recordKey(record.publicId));
+      if (!existing) return false;
+      await kv.put(recordKey(record.publicId), JSON.stringify(record));
+      await putHistoryEntry(kv, record);
+      await putIndexEntry(kv, record);
+      return true;
+    },
+
+    async get(publicId) {
+      return getRecord(kv, publicId);
+    },
+
+    async getLatestByUrl(url, options) {
+      const publicId = await kv.get(urlKey(url, options));
+      if (!publicId) return null;
+      return getRecord(kv, publicId);
+    },
+
+    // Served entirely from KV list metadata; record bodies are not read
+    async getHistory(url, page): Promise<HistoryPage> {
+      const list = await kv.list<HistoryEntry>({
+        prefix: historyPrefix(url),
+        limit: page.limit,
+        cursor: page.cursor,
+      });
+
+      const entries = list.keys
+        .map((k) => k.metadata)
+        .filter((m): m is HistoryEntry => !!m);
+
+      return { url, entries, cursor: list.list_complete ? null : list.cursor };
+    },
+
+    async list(filter: RecordListFilter = {}) {
+      const records: StoredRecord[] = [];
+      for await (const { metadata } of scanIndex(kv)) {
+        // Newest first, so nothing further can be on or after from
+        if (filter.from != null && metadata.date < filter.from) break;
+        if (!indexMatches(metadata, filter)) continue;
+        const record = await getRecord(kv, metadata.publicId);
+        if (record && (!filter.url || record.url === filter.url)) records.push(record);
+      }
+      return records;
+    },
+
+    async listPage(query: RecordPageQuery): Promise<RecordListPage> {
+      await ensureIndexed(kv);
+      const records: RecordListEntry[] = [];
+      let { kvCursor, skip } = decodePageCursor(query.cursor);
+
+      for (;;) {
+        const list = await kv.list<RecordIndexMetadata>({
+          prefix: KV_PREFIX_RECORD_INDEX,
+          cursor: kvCursor,
+          limit: 1000,
+        });
+
+        for (let i = skip; i < list.keys.length; i++) {
+          const metadata = list.keys[i].metadata;
+          if (!metadata) continue;
+          if (query.from != null && metadata.date < query.from) {
+            return { records, cursor: null };
+          }
+          if (!indexMatches(metadata, query)) continue;
+
+          let url = metadata.url;
+          if (url == null) {
+            url = (await getRecord(kv, metadata.publicId))?.url;
+            if (url == null || (query.urlPrefix && !url.startsWith(query.urlPrefix))) continue;
+          }
+          records.push({ ...metadata, url });
+
+          if (records.length === query.limit) {
+            const hasMore = i + 1 < list.keys.length || !list.list_complete;
+            const next =
+              i + 1 < list.keys.length
+                ? encodePageCursor(kvCursor, i + 1)
+                : encodePageCursor(list.list_complete ? undefined : list.cursor, 0);
+            return { records, cursor: hasMore ? next : null };
+          }
+        }
+
+        if (list.list_complete) return { records, cursor: null };
+        kvCursor = list.cursor;
+        skip = 0;
+      }
+    },
+
+    async deleteOlderThan(cutoff) {
+      const deleted: StoredRecord[] = [];
+      for await (const { key, metadata } of scanIndex(kv)) {
+        if (metadata.date >= cutoff) continue;
+        const r = await getRecord(kv, metadata.publicId);
+        await kv.delete(key);
+        if (!r) continue;
+        await kv.delete(recordKey(r.publicId));
+        const pointer = urlKey(r.url, r.options);
+        const urlVal = await kv.get(pointer);
+        if (urlVal === r.publicId) await kv.delete(pointer);
+        await kv.delete(historyKey(r));
+        deleted.push(r);
+      }
+      return deleted;
+    },
+
+    async findStuck(cutoff) {
+      const stuck: StoredRecord[] = [];
+      for await (const { metadata } of scanIndex(kv)) {
+        if (
+          metadata.status !== "processing" ||
+          metadata.processingStartedAt == null ||
+          metadata.processingStartedAt >= cutoff
+        ) {
+          continue;
+        }
+        const record = await getRecord(kv, metadata.publicId);
+        if (record) stuck.push(record);
+      }
+      return stuck;
+    },
+  };
+}
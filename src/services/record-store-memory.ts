@@ -0,0 +1,130 @@
+/**
+ * In-memory record store for tests; nothing is persisted beyond the isolate
+ */
+
+import type { HistoryEntry, RecordListEntry, RecordStatus } from "../types";
+import type { StoredRecord } from "./storage";
+import type { RecordListFilter, RecordStore } from "./record-store";
+import { auditOptionsKey, DEFAULT_AUDIT_OPTIONS } from "./audit-options";
+import { headlineScores } from "./summary";
+
+/**
+ * Whether a record matches a list filter; shared with stores that filter in code
+ */
+export function matchesRecordFilter(record: StoredRecord, filter: RecordListFilter): boolean {
+  if (filter.status && record.status !== filter.status) return false;
+  if (filter.url && record.url !== filter.url) return false;
+  if (filter.from != null && record.date < filter.from) return false;
+  if (filter.to != null && record.date > filter.to) return false;
+  return true;
+}
+
+function newestFirst(a: StoredRecord, b: StoredRecord): number {
+  return b.date - a.date || b.publicId.localeCompare(a.publicId);
+}
+
+function copy(record: StoredRecord): StoredRecord {
+  return structuredClone(record);
+}
+
+export function createMemoryRecordStore(): RecordStore {
+  const records = new Map<string, StoredRecord>();
+
+  return {
+    async create(record) {
+      records.set(record.publicId, copy(record));
+    },
+
+    async update(record) {
+      if (!records.has(record.publicId)) return false;
+      records.set(record.publicId, copy(record));
+      return true;
+    },
+
+    async get(publicId) {
+      const record = records.get(publicId);
+      return record ? copy(record) : null;
+    },
+
+    async getLatestByUrl(url, options) {
+      const optionsKey = auditOptionsKey(options);
+      const latest = [...records.values()]
+        .filter(
+          (r) =>
+            r.url === url && auditOptionsKey(r.options ?? DEFAULT_AUDIT_OPTIONS) === optionsKey
+        )
+        .sort(newestFirst)[0];
+      return latest ? copy(latest) : null;
+    },
+
+    // The cursor is the offset of the next entry
+    async getHistory(url, page) {
+      const offset = page.cursor ? Number(page.cursor) || 0 : 0;
+      const matching = [...records.values()].filter((r) => r.url === url).sort(newestFirst);
+      const entries: HistoryEntry[] = matching
+        .slice(offset, offset + page.limit)
+        .map((r) => ({
+          publicId: r.publicId,
+          date: r.date,
+          status: r.status as RecordStatus,
+          options: r.options ?? DEFAULT_AUDIT_OPTIONS,
+          scores: headlineScores(r.summary ?? null),
+        }));
+      const next = offset + page.limit;
+      return { url, entries, cursor: next < matching.length ? String(next) : null };
+    },
+
+    async list(filter: RecordListFilter = {}) {
+      return [...records.values()]
+        .filter((r) => matchesRecordFilter(r, filter))
+        .sort(newestFirst)
+        .map(copy);
+    },
+
+    // The cursor is the offset of the next entry, as in getHistory
+    async listPage(query) {
+      const offset = query.cursor ? Number(query.cursor) || 0 : 0;
+      const matching = [...records.values()]
+        .filter(
+          (r) =>
+            matchesRecordFilter(r, query) &&
+            (!query.urlPrefix || r.url.startsWith(query.urlPrefix))
+        )
+        .sort(newestFirst);
+      const entries: RecordListEntry[] = matching
+        .slice(offset, offset + query.limit)
+        .map((r) => ({
+          publicId: r.publicId,
+          url: r.url,
+          formFactor: r.formFactor,
+          date: r.date,
+          status: r.status as RecordStatus,
+          processingStartedAt: r.processingStartedAt ?? null,
+        }));
+      const next = offset + query.limit;
+      return { records: entries, cursor: next < matching.length ? String(next) : null };
+    },
+
+    async deleteOlderThan(cutoff) {
+      const deleted: StoredRecord[] = [];
+      for (const record of records.values()) {
+        if (record.date < cutoff) {
+          records.delete(record.publicId);
+          deleted.push(record);
+        }
+      }
+      return deleted;
+    },
+
+    async findStuck(cutoff) {
+      return [...records.values()]
+        .filter(
+          (r) =>
+            r.status === "processing" &&
+            r.processingStartedAt != null &&
+            r.processingStartedAt < cutoff
+        )
+        .map(copy);
+    },
+  };
+}
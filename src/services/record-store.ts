@@ -0,0 +1,76 @@
+/**
+ * Record storage backends
+ *
+ * RECORD_STORE selects the backend: "kv" (default), "d1" (needs the DB binding and the
+ * migrations in migrations/) or "memory" (per-isolate, for tests and local experiments).
+ * Result blobs stay in R2 whichever backend holds the records.
+ */
+
+import type { AuditOptions, HistoryPage, RecordListPage, RecordStatus } from "../types";
+import type { StoredRecord } from "./storage";
+import { createKvRecordStore } from "./record-store-kv";
+import { createD1RecordStore } from "./record-store-d1";
+import { createMemoryRecordStore } from "./record-store-memory";
+
+export interface RecordListFilter {
+  status?: RecordStatus;
+  /** Exact (canonical) URL */
+  url?: string;
+  /** Inclusive bounds on the record date (epoch ms) */
+  from?: number | null;
+  to?: number | null;
+}
+
+export interface RecordPageQuery {
+  status?: RecordStatus;
+  urlPrefix?: string;
+  from?: number | null;
+  to?: number | null;
+  limit: number;
+  /** Opaque and backend-specific */
+  cursor?: string;
+}
+
+export interface RecordStore {
+  /** Inserts a new record; it becomes the latest for its URL and options */
+  create(record: StoredRecord): Promise<void>;
+  /** Replaces an existing record; false when there is none with its publicId */
+  update(record: StoredRecord): Promise<boolean>;
+  get(publicId: string): Promise<StoredRecord | null>;
+  /** Most recently created record for the URL run with these options */
+  getLatestByUrl(url: string, options: AuditOptions): Promise<StoredRecord | null>;
+  /** Past runs for a URL, newest first; cursor is opaque and backend-specific */
+  getHistory(url: string, page: { limit: number; cursor?: string }): Promise<HistoryPage>;
+  /** Records matching the filter, newest first */
+  list(filter?: RecordListFilter): Promise<StoredRecord[]>;
+  /** One page of index entries matching the query, newest first; bodies are not read */
+  listPage(query: RecordPageQuery): Promise<RecordListPage>;
+  /** Deletes records created before cutoff and returns them */
+  deleteOlderThan(cutoff: number): Promise<StoredRecord[]>;
+  /** Records in processing whose processingStartedAt is before cutoff */
+  findStuck(cutoff: number): Promise<StoredRecord[]>;
+}
+
+/** Shared by every request in the isolate */
+let memoryStore: RecordStore | null = null;
+
+/**
+ * Returns the record store configured by RECORD_STORE
+ */
+export function getRecordStore(env: Env): RecordStore {
+  const backend: string = env.RECORD_STORE ?? "kv";
+
+  if (backend === "d1") {
+    if (!env.DB) {
+      throw new Error('RECORD_STORE is "d1" but there is no DB binding');
+    }
+    return createD1RecordStore(env.DB);
+  }
+
+  if (backend === "memory") {
+    memoryStore ??= createMemoryRecordStore();
+    return memoryStore;
+  }
+
+  return createKvRecordStore(env.KV);
+}
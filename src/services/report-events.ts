@@ -0,0 +1,64 @@
+/**
+ * Report progress events for /events (Server-Sent Events)
+ *
+ * The report coordinator keeps a short log of each report's events and pushes new ones to
+ * open streams; report runs publish through it as form factors and the report finish.
+ */
+
+import type { ReportProgressEvent } from "../types";
+import type { StoredRecord } from "./storage";
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-store",
+} as const;
+
+/**
+ * One SSE message; the event name is the event type
+ */
+export function encodeServerSentEvent(event: ReportProgressEvent, id?: number): string {
+  const idLine = id != null ? `id: ${id}\n` : "";
+  return `${idLine}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Id sent with a final event built from the record rather than the coordinator's log;
+ * at or after every log id, so a reconnect carrying it is told the stream is over
+ */
+export const RECORD_FINAL_EVENT_ID = Number.MAX_SAFE_INTEGER;
+
+export function isFinalProgressEvent(event: ReportProgressEvent): boolean {
+  return event.type === "completed" || event.type === "failed";
+}
+
+/**
+ * The completed or failed event for a finished record
+ */
+export function finalProgressEvent(record: StoredRecord): ReportProgressEvent {
+  const status = record.status === "completed" ? "completed" : "failed";
+  return {
+    type: status,
+    publicId: record.publicId,
+    status,
+    summary: record.summary ?? null,
+    error: record.error ?? null,
+    at: Date.now(),
+  };
+}
+
+/**
+ * Pushes an event to the report's subscribers. Progress is best effort: failures are logged
+ * and never fail the report run.
+ */
+export async function publishReportProgress(
+  event: ReportProgressEvent,
+  env: Env
+): Promise<void> {
+  if (!env.REPORT_COORDINATOR) return;
+  try {
+    const id = env.REPORT_COORDINATOR.idFromName(event.publicId);
+    await env.REPORT_COORDINATOR.get(id).publish(event);
+  } catch (error) {
+    console.warn(`publishReportProgress: failed for publicId ${event.publicId}`, error);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Run leases and status changes through the per-report coordinator (REPORT_COORDINATOR)
+ *
+ * Without the binding (e.g. a local config that omits durable objects) these fall back to
+ * checks against the stored record, which KV may serve stale.
+ */
+
+import type { RecordStatus, ReportLease } from "../types";
+import { REPORT_LEASE_TTL_MS, STUCK_PROCESSING_THRESHOLD_MS } from "../constants";
+import type { StoredRecord } from "./storage";
+import { canTransition, isFinalStatus } from "./record-status";
+
+function coordinator(publicId: string, env: Env) {
+  return env.REPORT_COORDINATOR.get(env.REPORT_COORDINATOR.idFromName(publicId));
+}
+
+/**
+ * Asks for the lease to run a report; only the holder may process it
+ */
+export async function acquireReportLease(
+  record: StoredRecord,
+  env: Env
+): Promise<ReportLease> {
+  const status = record.status as RecordStatus;
+
+  if (env.REPORT_COORDINATOR) {
+    return coordinator(record.publicId, env).acquireLease(
+      record.publicId,
+      status,
+      REPORT_LEASE_TTL_MS
+    );
+  }
+
+  if (isFinalStatus(status)) {
+    return { granted: false, reason: "finished", status };
+  }
+  const isRunning =
+    status === "processing" &&
+    record.processingStartedAt != null &&
+    Date.now() - record.processingStartedAt <= STUCK_PROCESSING_THRESHOLD_MS;
+  if (isRunning) {
+    return { granted: false, reason: "leased", status };
+  }
+  return { granted: true, leaseId: "", expiresAt: Date.now() + REPORT_LEASE_TTL_MS, attempt: 1 };
+}
+
+/**
+ * Whether a run still holds its lease, i.e. no later run has taken the report over
+ */
+export async function holdsReportLease(
+  publicId: string,
+  leaseId: string,
+  env: Env
+): Promise<boolean> {
+  if (env.REPORT_COORDINATOR) {
+    return coordinator(publicId, env).holdsLease(leaseId);
+  }
+  return true;
+}
+
+/**
+ * Ends a run with its outcome; false when a later run took the lease over, in which case
+ * the caller must not write the record
+ */
+export async function releaseReportLease(
+  publicId: string,
+  leaseId: string,
+  status: RecordStatus,
+  env: Env
+): Promise<boolean> {
+  if (env.REPORT_COORDINATOR) {
+    return coordinator(publicId, env).releaseLease(leaseId, status);
+  }
+  return true;
+}
+
+/**
+ * Moves a report that nobody holds a lease on back to pending or to failed
+ */
+export async function resetReportStatus(
+  record: Pick<StoredRecord, "publicId" | "status">,
+  status: "pending" | "failed",
+  env: Env
+): Promise<boolean> {
+  if (env.REPORT_COORDINATOR) {
+    return coordinator(record.publicId, env).reset(
+      record.publicId,
+      record.status as RecordStatus,
+      status
+    );
+  }
+  return canTransition(record.status as RecordStatus, status);
+}
@@ -0,0 +1,283 @@
+/**
+ * Server-rendered HTML view of a report
+ */
+
+import type {
+  FieldDataSummary,
+  FormFactor,
+  FormFactorSummary,
+  LabMetric,
+  PageSpeedApiResponse,
+  PageSpeedCategory,
+  RecordResponse,
+  ReportPageAudit,
+} from "../types";
+import {
+  AUDIT_PASS_THRESHOLD,
+  LAB_METRIC_AUDITS,
+  PAGESPEED_CATEGORIES,
+  REPORT_PAGE_MAX_AUDITS,
+  REPORT_PAGE_REFRESH_SECONDS,
+  UNSCORED_DISPLAY_MODES,
+} from "../constants";
+import { resultsByFormFactor, summarizeResult } from "./summary";
+import { DEFAULT_AUDIT_OPTIONS } from "./audit-options";
+import { CRUX_CLS_SCALE } from "./field-data";
+
+const CATEGORY_LABELS: Record<PageSpeedCategory, string> = {
+  PERFORMANCE: "Performance",
+  ACCESSIBILITY: "Accessibility",
+  BEST_PRACTICES: "Best Practices",
+  SEO: "SEO",
+};
+
+const METRIC_LABELS: Record<LabMetric, string> = {
+  FCP: "First Contentful Paint",
+  LCP: "Largest Contentful Paint",
+  TBT: "Total Blocking Time",
+  CLS: "Cumulative Layout Shift",
+  SI: "Speed Index",
+};
+
+const STYLES = `
+body{font-family:system-ui,-apple-system,sans-serif;margin:0 auto;max-width:960px;padding:24px;color:#202124}
+h1{font-size:1.4rem;word-break:break-all}h2{border-bottom:1px solid #dadce0;padding-bottom:4px}
+.meta{color:#5f6368;font-size:.9rem}.gauges{display:flex;flex-wrap:wrap;gap:24px;margin:16px 0}
+.gauge{text-align:center;width:110px}.gauge svg{display:block;margin:0 auto}
+.pass{color:#0c7c3c;stroke:#0c7c3c}.average{color:#c76a00;stroke:#c76a00}.fail{color:#c5221f;stroke:#c5221f}
+.none{color:#80868b;stroke:#80868b}table{border-collapse:collapse;width:100%;margin:8px 0 16px}
+td,th{text-align:left;padding:6px 8px;border-bottom:1px solid #f1f3f4}td.num{text-align:right;white-space:nowrap}
+.screenshot{max-width:280px;border:1px solid #dadce0}.status{padding:16px;border-radius:8px;background:#f1f3f4}
+`;
+
+/**
+ * Escapes text for HTML element content and quoted attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function scoreClass(score: number | null | undefined): string {
+  if (score == null) return "none";
+  if (score >= 90) return "pass";
+  if (score >= 50) return "average";
+  return "fail";
+}
+
+function formatMetric(metric: LabMetric, value: number | null): string {
+  if (value == null) return "–";
+  if (metric === "CLS") return value.toFixed(3);
+  if (metric === "TBT") return `${Math.round(value)} ms`;
+  return `${(value / 1000).toFixed(1)} s`;
+}
+
+/**
+ * CrUX reports CLS percentiles multiplied by 100 and the rest in milliseconds
+ */
+function formatFieldPercentile(name: string, percentile: number | null): string {
+  if (percentile == null) return "–";
+  if (name.startsWith("CUMULATIVE_LAYOUT_SHIFT")) return (percentile / CRUX_CLS_SCALE).toFixed(2);
+  return `${percentile} ms`;
+}
+
+function isFailing(audit: any): boolean {
+  if (!audit || typeof audit.score !== "number") return false;
+  if (UNSCORED_DISPLAY_MODES.has(audit.scoreDisplayMode)) return false;
+  return audit.score < AUDIT_PASS_THRESHOLD;
+}
+
+function toPageAudit(id: string, audit: any): ReportPageAudit {
+  const savings = audit.details?.overallSavingsMs;
+  return {
+    id,
+    title: audit.title ?? id,
+    displayValue: audit.displayValue ?? null,
+    score: typeof audit.score === "number" ? audit.score : null,
+    savingsMs: typeof savings === "number" ? savings : null,
+  };
+}
+
+/**
+ * Failing opportunity audits, largest estimated savings first
+ */
+export function extractOpportunities(data: PageSpeedApiResponse): ReportPageAudit[] {
+  const audits = data?.lighthouseResult?.audits ?? {};
+  return Object.entries<any>(audits)
+    .filter(([, audit]) => audit?.details?.type === "opportunity" && isFailing(audit))
+    .map(([id, audit]) => toPageAudit(id, audit))
+    .filter((audit) => (audit.savingsMs ?? 0) > 0)
+    .sort((a, b) => (b.savingsMs ?? 0) - (a.savingsMs ?? 0))
+    .slice(0, REPORT_PAGE_MAX_AUDITS);
+}
+
+/**
+ * Failing audits in the performance category's diagnostics group, lowest score first
+ */
+export function extractDiagnostics(data: PageSpeedApiResponse): ReportPageAudit[] {
+  const audits = data?.lighthouseResult?.audits ?? {};
+  const refs: any[] = data?.lighthouseResult?.categories?.performance?.auditRefs ?? [];
+  return refs
+    .filter((ref) => ref?.group === "diagnostics")
+    .map((ref) => [ref.id, audits[ref.id]] as const)
+    .filter(([, audit]) => isFailing(audit) && audit.details?.type !== "opportunity")
+    .map(([id, audit]) => toPageAudit(id, audit))
+    .sort((a, b) => (a.score ?? 0) - (b.score ?? 0))
+    .slice(0, REPORT_PAGE_MAX_AUDITS);
+}
+
+/**
+ * The final-screenshot audit's image as a data URI, or null
+ */
+export function extractFinalScreenshot(data: PageSpeedApiResponse): string | null {
+  const image = data?.lighthouseResult?.audits?.["final-screenshot"]?.details?.data;
+  return typeof image === "string" && image.startsWith("data:image/") ? image : null;
+}
+
+function renderGauge(label: string, score: number | null | undefined): string {
+  const radius = 40;
+  const circumference = 2 * Math.PI * radius;
+  const filled = score == null ? 0 : (score / 100) * circumference;
+  const cls = scoreClass(score);
+  return `<div class="gauge ${cls}">
+<svg width="96" height="96" viewBox="0 0 96 96" role="img" aria-label="${escapeHtml(label)} ${score ?? "n/a"}">
+<circle cx="48" cy="48" r="${radius}" fill="none" stroke="#e8eaed" stroke-width="8"/>
+<circle class="${cls}" cx="48" cy="48" r="${radius}" fill="none" stroke-width="8" stroke-linecap="round"
+ stroke-dasharray="${filled.toFixed(1)} ${circumference.toFixed(1)}" transform="rotate(-90 48 48)"/>
+<text x="48" y="56" text-anchor="middle" font-size="24" fill="currentColor">${score ?? "–"}</text>
+</svg>${escapeHtml(label)}</div>`;
+}
+
+function renderAuditTable(title: string, audits: ReportPageAudit[], showSavings: boolean): string {
+  if (audits.length === 0) return "";
+  const rows = audits
+    .map(
+      (audit) =>
+        `<tr><td>${escapeHtml(audit.title)}</td><td class="num">${escapeHtml(
+          showSavings && audit.savingsMs != null
+            ? `${(audit.savingsMs / 1000).toFixed(2)} s`
+            : (audit.displayValue ?? "")
+        )}</td></tr>`
+    )
+    .join("");
+  return `<h3>${escapeHtml(title)}</h3><table><tbody>${rows}</tbody></table>`;
+}
+
+function renderFieldData(fieldData: FieldDataSummary | null): string {
+  if (!fieldData || Object.keys(fieldData.metrics).length === 0) return "";
+  const rows = Object.entries(fieldData.metrics)
+    .map(
+      ([name, metric]) =>
+        `<tr><td>${escapeHtml(name)}</td><td class="num">${escapeHtml(
+          formatFieldPercentile(name, metric.percentile)
+        )}</td><td>${escapeHtml(metric.category ?? "–")}</td></tr>`
+    )
+    .join("");
+  const overall = fieldData.overallCategory
+    ? ` <span class="meta">(overall: ${escapeHtml(fieldData.overallCategory)})</span>`
+    : "";
+  return `<h3>Field data (CrUX, p75)${overall}</h3><table><tbody>${rows}</tbody></table>`;
+}
+
+function renderFormFactor(
+  formFactor: FormFactor,
+  data: PageSpeedApiResponse,
+  summary: FormFactorSummary
+): string {
+  const gauges = PAGESPEED_CATEGORIES.filter((c) => c in summary.categories)
+    .map((category) => renderGauge(CATEGORY_LABELS[category], summary.categories[category]))
+    .join("");
+
+  const metricRows = (Object.keys(LAB_METRIC_AUDITS) as LabMetric[])
+    .map(
+      (metric) =>
+        `<tr><td>${METRIC_LABELS[metric]}</td><td class="num">${formatMetric(
+          metric,
+          summary.metrics[metric]
+        )}</td></tr>`
+    )
+    .join("");
+  const hasPerformance = "PERFORMANCE" in summary.categories;
+  const screenshot = extractFinalScreenshot(data);
+
+  return `<section><h2>${formFactor === "MOBILE" ? "Mobile" : "Desktop"}</h2>
+<div class="gauges">${gauges}</div>
+${hasPerformance ? `<h3>Lab metrics</h3><table><tbody>${metricRows}</tbody></table>` : ""}
+${renderFieldData(summary.fieldData)}
+${renderAuditTable("Opportunities", extractOpportunities(data), true)}
+${renderAuditTable("Diagnostics", extractDiagnostics(data), false)}
+${screenshot ? `<h3>Final screenshot</h3><img class="screenshot" alt="Final screenshot" src="${escapeHtml(screenshot)}">` : ""}
+</section>`;
+}
+
+function renderDocument(title: string, body: string, refreshSeconds: number | null): string {
+  const refresh =
+    refreshSeconds != null ? `<meta http-equiv="refresh" content="${refreshSeconds}">` : "";
+  return `<!doctype html>
+<html lang="en"><head><meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1">
+<meta name="robots" content="noindex">${refresh}
+<title>${escapeHtml(title)}</title><style>${STYLES}</style></head>
+<body>${body}</body></html>`;
+}
+
+/**
+ * Renders the page for a record in any status. Pending and processing pages
+ * reload themselves every REPORT_PAGE_REFRESH_SECONDS.
+ */
+export function renderReportPage(record: RecordResponse): string {
+  const heading = `<h1>${escapeHtml(record.url)}</h1>`;
+  const title = `PageSpeed report: ${record.url}`;
+
+  if (record.status === "pending" || record.status === "processing") {
+    return renderDocument(
+      title,
+      `${heading}<p class="status">This report is ${record.status}. The page refreshes every ${REPORT_PAGE_REFRESH_SECONDS} seconds.</p>`,
+      REPORT_PAGE_REFRESH_SECONDS
+    );
+  }
+
+  if (record.status !== "completed") {
+    return renderDocument(
+      title,
+      `${heading}<p class="status fail">This report failed: ${escapeHtml(record.error ?? "unknown error")}</p>`,
+      null
+    );
+  }
+
+  const options = record.options ?? DEFAULT_AUDIT_OPTIONS;
+  const byFormFactor = resultsByFormFactor(record.data, options.formFactors);
+  const sections = (["MOBILE", "DESKTOP"] as FormFactor[])
+    .filter((formFactor) => byFormFactor[formFactor])
+    .map((formFactor) => {
+      const data = byFormFactor[formFactor]!;
+      return renderFormFactor(formFactor, data, summarizeResult(data));
+    })
+    .join("");
+
+  const fetchTime = Object.values(byFormFactor)[0]?.lighthouseResult?.fetchTime;
+  const meta = `<p class="meta">Report ${escapeHtml(record.publicId)}${
+    fetchTime ? ` · audited ${escapeHtml(fetchTime)}` : ""
+  }</p>`;
+
+  return renderDocument(
+    title,
+    `${heading}${meta}${sections || `<p class="status">The stored results are no longer available.</p>`}`,
+    null
+  );
+}
+
+/**
+ * Renders the page for an unknown publicId
+ */
+export function renderNotFoundPage(publicId: string): string {
+  return renderDocument(
+    "Report not found",
+    `<h1>Report not found</h1><p class="status">No report with id ${escapeHtml(publicId)}. Reports are deleted after a few days.</p>`,
+    null
+  );
+}
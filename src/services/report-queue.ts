@@ -0,0 +1,112 @@
+/**
+ * Report job queue: producer side and job processing for the consumer
+ */
+
+import type { ReportJob } from "../types";
+import {
+  REPORT_QUEUE_RETRY_BASE_DELAY_SECONDS,
+  REPORT_QUEUE_SEND_BATCH_MAX,
+} from "../constants";
+import { getStoredRecord } from "./storage";
+import { runFullReport } from "./report";
+import { acquireReportLease } from "./report-lease";
+import { recordMonitorOutcome } from "./monitors";
+
+/**
+ * Enqueues a report job for publicId.
+ * Without a REPORT_QUEUE binding (e.g. a local config that omits queues) the job
+ * runs in the background via waitUntil as a stand-in for the queue.
+ */
+export async function enqueueReportJob(
+  publicId: string,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<void> {
+  const job: ReportJob = { publicId, enqueuedAt: Date.now() };
+
+  if (env.REPORT_QUEUE) {
+    await env.REPORT_QUEUE.send(job);
+    return;
+  }
+
+  console.log("enqueueReportJob: no REPORT_QUEUE binding, running in background", publicId);
+  ctx.waitUntil(processReportJob(job, env, true));
+}
+
+/**
+ * Sends jobs with Queue.sendBatch, REPORT_QUEUE_SEND_BATCH_MAX at a time, and returns how
+ * many were sent; a failed send stops there and is logged, not thrown.
+ * Without a REPORT_QUEUE binding the jobs run in the background as in enqueueReportJob.
+ */
+export async function enqueueReportJobs(
+  jobs: ReportJob[],
+  env: Env,
+  ctx: ExecutionContext
+): Promise<number> {
+  if (!env.REPORT_QUEUE) {
+    console.log(`enqueueReportJobs: no REPORT_QUEUE binding, running ${jobs.length} in background`);
+    ctx.waitUntil(Promise.all(jobs.map((job) => processReportJob(job, env, true))));
+    return jobs.length;
+  }
+
+  let sent = 0;
+  while (sent < jobs.length) {
+    const chunk = jobs.slice(sent, sent + REPORT_QUEUE_SEND_BATCH_MAX);
+    try {
+      await env.REPORT_QUEUE.sendBatch(chunk.map((body) => ({ body })));
+    } catch (error) {
+      console.error(`enqueueReportJobs: sent ${sent} of ${jobs.length} jobs before failing`, error);
+      break;
+    }
+    sent += chunk.length;
+  }
+  return sent;
+}
+
+/**
+ * Runs the report for a job if it can take the run lease, i.e. the report is neither
+ * finished nor running elsewhere.
+ * Returns "retry" when the run failed and isFinalAttempt was false.
+ * Reports scheduled by a monitor pass their final status back to it.
+ */
+export async function processReportJob(
+  job: ReportJob,
+  env: Env,
+  isFinalAttempt: boolean
+): Promise<"done" | "retry"> {
+  const record = await getStoredRecord(job.publicId, env);
+  if (!record) {
+    console.warn("processReportJob: record not found", job.publicId);
+    return "done";
+  }
+
+  const lease = await acquireReportLease(record, env);
+  if (!lease.granted) {
+    console.log(`processReportJob: not running ${job.publicId} (${lease.reason})`);
+    return "done";
+  }
+  console.log(`processReportJob: run ${lease.attempt} of ${job.publicId}`);
+
+  const succeeded = await runFullReport(
+    record.url,
+    env,
+    record.publicId,
+    record.options,
+    isFinalAttempt,
+    lease.leaseId
+  );
+  if (record.monitorId) {
+    const finished = await getStoredRecord(record.publicId, env);
+    if (finished?.status === "completed" || finished?.status === "failed") {
+      await recordMonitorOutcome(record.monitorId, record.publicId, finished.status, env);
+    }
+  }
+  return succeeded || isFinalAttempt ? "done" : "retry";
+}
+
+/**
+ * Exponential backoff for queue retries (30s, 60s, 120s, ...)
+ */
+export function reportJobRetryDelaySeconds(attempts: number): number {
+  return REPORT_QUEUE_RETRY_BASE_DELAY_SECONDS * 2 ** Math.max(0, attempts - 1);
+}
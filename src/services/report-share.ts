@@ -0,0 +1,69 @@
+/**
+ * Signed share links for the HTML report page
+ *
+ * Browsers cannot send a bearer token from a link or a meta refresh, so a report:read
+ * client can mint a link carrying ?share={expiresAt}.{signature}, where signature is the
+ * hex HMAC-SHA256 of "{publicId}.{expiresAt}" under REPORT_SHARE_SECRET. The link opens
+ * that one report until expiresAt (epoch seconds).
+ */
+
+import { REPORT_SHARE_TTL_SECONDS } from "../constants";
+
+async function shareKey(secret: string, usage: "sign" | "verify"): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    [usage]
+  );
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array | null {
+  if (!/^(?:[0-9a-f]{2})+$/.test(hex)) return null;
+  return new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+}
+
+/**
+ * Share token for a report, valid for REPORT_SHARE_TTL_SECONDS from now
+ */
+export async function createShareToken(
+  publicId: string,
+  secret: string,
+  now: number = Date.now()
+): Promise<{ token: string; expiresAt: number }> {
+  const expiresAt = Math.floor(now / 1000) + REPORT_SHARE_TTL_SECONDS;
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await shareKey(secret, "sign"),
+    new TextEncoder().encode(`${publicId}.${expiresAt}`)
+  );
+  return { token: `${expiresAt}.${toHex(signature)}`, expiresAt };
+}
+
+/**
+ * Whether the token was signed for this report and has not expired
+ */
+export async function verifyShareToken(
+  publicId: string,
+  token: string,
+  secret: string,
+  now: number = Date.now()
+): Promise<boolean> {
+  const [expires, hex] = token.split(".");
+  const expiresAt = Number(expires);
+  const signature = fromHex(hex ?? "");
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 <= now || !signature) return false;
+
+  // verify compares in constant time
+  return crypto.subtle.verify(
+    "HMAC",
+    await shareKey(secret, "verify"),
+    signature,
+    new TextEncoder().encode(`${publicId}.${expiresAt}`)
+  );
+}
@@ -2,20 +2,61 @@
  * Report generation and processing logic
  */
 
-import { fetchPageSpeedData } from "./pagespeed-api";
+import type {
+  AuditOptions,
+  FormFactor,
+  FormFactorFetchOutcome,
+  PageSpeedApiResponse,
+  RecordStatus,
+} from "../types";
+import {
+  fetchPageSpeedData,
+  isRetryableFetchResult,
+  pageSpeedClientFromEnv,
+} from "./pagespeed-api";
+import { resultsByFormFactor, summarizeResults } from "./summary";
+import { extractReportFieldData } from "./field-data";
+import { evaluateBudgets, getBudgetsForUrl } from "./budgets";
+import { dispatchReportEvent } from "./webhooks";
+import { DEFAULT_AUDIT_OPTIONS, formFactorLabel } from "./audit-options";
 import {
   createPendingRecord,
   updateRecord,
   saveResultsToBucket,
 } from "./storage";
+import { holdsReportLease, releaseReportLease } from "./report-lease";
+import { publishReportProgress } from "./report-events";
+
+/**
+ * Thrown when no form factor produced data; carries the per-form-factor outcomes
+ */
+class PageSpeedFetchError extends Error {
+  constructor(
+    message: string,
+    readonly outcomes: Partial<Record<FormFactor, FormFactorFetchOutcome>>,
+    readonly errorClass: FormFactorFetchOutcome["errorClass"],
+    readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = "PageSpeedFetchError";
+  }
+}
 
 /**
- * Runs a full PageSpeed report for both mobile and desktop
+ * Runs a full PageSpeed report for the form factors in options (mobile and desktop by default).
+ * The report completes if at least one form factor succeeds; the others' errors are kept
+ * in fetchOutcomes. When isFinalAttempt is false a retryable failure resets the record to
+ * pending (the caller retries) instead of marking it failed.
+ * With a leaseId the outcome is written only if the coordinator still recognises the lease,
+ * so a run that was taken over cannot overwrite the newer run's result.
  */
 export async function runFullReport(
   url: string,
   env: Env,
-  publicId?: string
+  publicId?: string,
+  options: AuditOptions = DEFAULT_AUDIT_OPTIONS,
+  isFinalAttempt: boolean = true,
+  leaseId: string | null = null
 ): Promise<boolean> {
   if (!url) {
     console.error("runFullReport: url is required");
@@ -30,9 +71,10 @@ export async function runFullReport(
     const result = await createPendingRecord(
       {
         requestUrl: url,
-        formFactor: "ALL",
+        formFactor: formFactorLabel(options),
         status: "pending",
         data: {},
+        options,
       },
       env
     );
@@ -41,6 +83,15 @@ export async function runFullReport(
 
   console.log("runFullReport: processing report with publicId", recordPublicId);
 
+  const releaseLease = async (status: RecordStatus): Promise<boolean> => {
+    if (leaseId == null) return true;
+    const released = await releaseReportLease(recordPublicId!, leaseId, status, env);
+    if (!released) {
+      console.warn("runFullReport: lease lost, not writing", status, "for publicId", recordPublicId);
+    }
+    return released;
+  };
+
   try {
     // Update status to processing and set processingStartedAt timestamp
     await updateRecord(
@@ -54,37 +105,106 @@ export async function runFullReport(
       env
     );
 
-    // Fetch PageSpeed data for both form factors in parallel
+    // Fetch PageSpeed data for the selected form factors in parallel
     console.log("runFullReport: fetching PageSpeed data");
-    const [mobileData, desktopData] = await Promise.all([
-      fetchPageSpeedData(url, "MOBILE", env.PAGESPEED_INSIGHTS_API ?? ""),
-      fetchPageSpeedData(url, "DESKTOP", env.PAGESPEED_INSIGHTS_API ?? ""),
-    ]);
-
-    // Check for API errors
-    if (mobileData.error || desktopData.error) {
-      const errorMessage =
-        mobileData.error || desktopData.error || "Unknown error";
-      throw new Error(`PageSpeed API error: ${errorMessage}`);
+    const client = pageSpeedClientFromEnv(env);
+    const fetchResults = await Promise.all(
+      options.formFactors.map(async (formFactor) => {
+        const result = await fetchPageSpeedData(
+          url,
+          formFactor,
+          env.PAGESPEED_INSIGHTS_API ?? "",
+          options,
+          client
+        );
+        await publishReportProgress(
+          {
+            type: "form_factor",
+            publicId: recordPublicId!,
+            formFactor,
+            succeeded: !!result.data,
+            error: result.error ?? null,
+            at: Date.now(),
+          },
+          env
+        );
+        return result;
+      })
+    );
+
+    const fetchOutcomes: Partial<Record<FormFactor, FormFactorFetchOutcome>> = {};
+    const results: PageSpeedApiResponse[] = [];
+    const succeededFormFactors: FormFactor[] = [];
+    fetchResults.forEach(({ data, ...outcome }, index) => {
+      const formFactor = options.formFactors[index];
+      fetchOutcomes[formFactor] = outcome;
+      if (data) {
+        results.push(data);
+        succeededFormFactors.push(formFactor);
+      }
+    });
+
+    // Fail only when every form factor failed
+    if (results.length === 0) {
+      const first = fetchResults[0];
+      throw new PageSpeedFetchError(
+        `PageSpeed API error: ${first?.error || "Unknown error"}`,
+        fetchOutcomes,
+        first?.errorClass ?? "unknown",
+        fetchResults.some(isRetryableFetchResult)
+      );
     }
 
     // Save results to R2 bucket
     console.log("runFullReport: saving results to bucket");
-    const dataUrl = await saveResultsToBucket(
-      0,
-      url,
-      [mobileData, desktopData],
-      env,
-      recordPublicId
-    );
+    const byFormFactor = resultsByFormFactor(results, succeededFormFactors);
+    const resultKeys = await saveResultsToBucket(recordPublicId, url, byFormFactor, env);
+
+    // Evaluate any budgets that match this URL
+    const budgets = await getBudgetsForUrl(url, env);
+    const budgetResult = budgets.length > 0 ? evaluateBudgets(budgets, byFormFactor) : null;
 
     // Update record to completed
+    const summary = summarizeResults(results, succeededFormFactors);
+    const fieldData = extractReportFieldData(results, succeededFormFactors);
+    // The record is written before the lease is released: if the write throws, the lease is
+    // still held and the catch below can release it as pending or failed
+    if (leaseId != null && !(await holdsReportLease(recordPublicId, leaseId, env))) {
+      console.warn("runFullReport: lease lost, not writing completed for publicId", recordPublicId);
+      return false;
+    }
     await updateRecord(
       {
         publicId: recordPublicId,
         status: "completed",
         data: [],
-        dataUrl,
+        dataUrl: "",
+        resultKeys,
+        summary,
+        fieldData,
+        budgetResult,
+        fetchOutcomes,
+      },
+      env
+    );
+    // The record is final now, so a failed release must not send the run down the retry path
+    await releaseLease("completed").catch((error) =>
+      console.error("runFullReport: releasing completed lease failed", error)
+    );
+
+    await dispatchReportEvent(
+      "report.completed",
+      { publicId: recordPublicId, url, status: "completed", summary, budgetResult, error: null },
+      env
+    );
+    await publishReportProgress(
+      {
+        type: "completed",
+        publicId: recordPublicId,
+        status: "completed",
+        summary,
+        error: null,
+        at: Date.now(),
       },
       env
     );
@@ -97,14 +217,65 @@ export async function runFullReport(
       error instanceof Error
         ? { error: error.message, stack: error.stack }
         : { error: String(error) };
+    const fetchError = error instanceof PageSpeedFetchError ? error : null;
+    const failure = {
+      fetchOutcomes: fetchError?.outcomes ?? null,
+      error: errorData.error,
+      errorClass: fetchError?.errorClass ?? "unknown",
+    } as const;
+
+    // Non-PageSpeed errors (e.g. storage) are treated as retryable
+    if (!isFinalAttempt && (fetchError?.retryable ?? true)) {
+      // Leave the record pending for the caller's retry
+      if (!(await releaseLease("pending"))) return false;
+      await updateRecord(
+        {
+          publicId: recordPublicId!,
+          status: "pending",
+          data: errorData,
+          dataUrl: "",
+          processingStartedAt: null,
+          ...failure,
+        },
+        env
+      );
+      console.log("runFullReport: reset to pending for retry, publicId", recordPublicId);
+      return false;
+    }
 
     // Update record to failed
+    if (!(await releaseLease("failed"))) return false;
     await updateRecord(
       {
         publicId: recordPublicId!,
         status: "failed",
         data: errorData,
         dataUrl: "",
+        ...failure,
+      },
+      env
+    );
+
+    await dispatchReportEvent(
+      "report.failed",
+      {
+        publicId: recordPublicId!,
+        url,
+        status: "failed",
+        summary: null,
+        budgetResult: null,
+        error: errorData.error,
+      },
+      env
+    );
+    await publishReportProgress(
+      {
+        type: "failed",
+        publicId: recordPublicId!,
+        status: "failed",
+        summary: null,
+        error: errorData.error,
+        at: Date.now(),
       },
       env
     );
@@ -0,0 +1,150 @@
+/**
+ * Sitemap fetching and parsing (sitemap.xml and sitemap indexes)
+ */
+
+import {
+  SITEMAP_MAX_BYTES,
+  SITEMAP_MAX_FETCHES,
+  SITEMAP_TIMEOUT_MS,
+} from "../constants";
+import { normalizeTargetUrl } from "./url-normalization";
+
+const XML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+};
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&(amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity])
+    .trim();
+}
+
+/**
+ * Extracts <loc> values from a sitemap document.
+ * isIndex is true for a <sitemapindex>, whose locs are further sitemaps.
+ */
+export function parseSitemap(xml: string): { isIndex: boolean; locs: string[] } {
+  const isIndex = /<(?:\w+:)?sitemapindex[\s>]/i.test(xml);
+  const locs = [...xml.matchAll(/<(?:\w+:)?loc>([\s\S]*?)<\/(?:\w+:)?loc>/gi)].map((m) =>
+    decodeXml(m[1])
+  );
+  return { isIndex, locs };
+}
+
+/**
+ * Reads a stream as UTF-8 text, cancelling it as soon as it passes maxBytes
+ */
+async function readTextCapped(
+  body: ReadableStream<Uint8Array>,
+  maxBytes: number
+): Promise<string | null> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let bytes = 0;
+  let text = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return text + decoder.decode();
+    bytes += value.byteLength;
+    if (bytes > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+async function fetchSitemapText(sitemapUrl: string): Promise<string> {
+  const response = await fetch(sitemapUrl, {
+    headers: { Accept: "application/xml, text/xml;q=0.9, */*;q=0.5" },
+    signal: AbortSignal.timeout(SITEMAP_TIMEOUT_MS),
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Sitemap ${sitemapUrl} returned HTTP ${response.status}`);
+  }
+
+  const length = Number(response.headers.get("Content-Length"));
+  if (length > SITEMAP_MAX_BYTES) {
+    await response.body.cancel();
+    throw new Error(`Sitemap ${sitemapUrl} is larger than ${SITEMAP_MAX_BYTES} bytes`);
+  }
+
+  // .xml.gz sitemaps are served as gzip files rather than with Content-Encoding; the cap
+  // applies to the decompressed bytes
+  const body = sitemapUrl.endsWith(".gz")
+    ? response.body.pipeThrough(new DecompressionStream("gzip"))
+    : response.body;
+  const text = await readTextCapped(body, SITEMAP_MAX_BYTES);
+  if (text === null) {
+    throw new Error(`Sitemap ${sitemapUrl} is larger than ${SITEMAP_MAX_BYTES} bytes`);
+  }
+  return text;
+}
+
+/**
+ * Collects page URLs from a sitemap, following sitemap indexes breadth-first.
+ * Stops after maxUrls pages or SITEMAP_MAX_FETCHES documents. Nested sitemap
+ * URLs must pass the same target validation as pages. Throws when the root
+ * sitemap cannot be fetched; nested failures are returned in errors.
+ */
+export async function collectSitemapUrls(
+  sitemapUrl: string,
+  maxUrls: number
+): Promise<{ urls: string[]; truncated: boolean; errors: string[] }> {
+  const urls: string[] = [];
+  const errors: string[] = [];
+  const queue = [sitemapUrl];
+  const seen = new Set<string>();
+  let fetches = 0;
+  let truncated = false;
+
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+
+    if (fetches >= SITEMAP_MAX_FETCHES) {
+      truncated = true;
+      break;
+    }
+    fetches++;
+
+    let xml: string;
+    try {
+      xml = await fetchSitemapText(next);
+    } catch (error) {
+      if (next === sitemapUrl) throw error;
+      errors.push(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+
+    const { isIndex, locs } = parseSitemap(xml);
+    if (isIndex) {
+      for (const loc of locs) {
+        const nested = normalizeTargetUrl(loc);
+        if ("error" in nested) {
+          errors.push(`Skipped sitemap ${loc}: ${nested.error}`);
+        } else {
+          queue.push(nested.url);
+        }
+      }
+      continue;
+    }
+
+    for (const loc of locs) {
+      if (urls.length >= maxUrls) {
+        truncated = true;
+        break;
+      }
+      urls.push(loc);
+    }
+    if (truncated) break;
+  }
+
+  return { urls, truncated, errors };
+}
@@ -1,17 +1,67 @@
 /**
- * Storage operations using Cloudflare Workers KV
- * Keys: record:{publicId}, url:{url} -> publicId
+ * Storage operations using Cloudflare Workers KV and R2
+ * Report records go through the configured RecordStore (see record-store.ts).
+ * KV keys: budget:{id} -> PerformanceBudget, webhook:{id} -> Webhook,
+ * token:{sha256(token)} -> ApiToken (ApiToken in metadata),
+ * usage:{window}:{subject} -> count ({ count } in metadata), batch:{id} -> BatchRecord,
+ * monitor:{id} -> Monitor (MonitorMetadata in metadata),
+ * webhook-delivery:{id} -> WebhookDelivery (WebhookDeliveryMetadata in metadata),
+ * scheduled-run:{startedAt} and scheduled-run:latest -> ScheduledRunSummary
+ * URLs passed in must already be canonical (see normalizeTargetUrl).
  */
 
 import type {
+  ApiToken,
+  AuditOptions,
+  BatchRecord,
+  BudgetResult,
   CreateRecordRequest,
+  DeleteOldRecordsResult,
+  FieldDataResponse,
+  FormFactor,
+  FormFactorFetchOutcome,
+  PageSpeedApiResponse,
+  PageSpeedErrorClass,
   UpdateRecordRequest,
   RecordResponse,
+  HistoryPage,
+  Monitor,
+  MonitorMetadata,
+  OrphanSweepResult,
+  PerformanceBudget,
+  RecordListPage,
+  RecordStatus,
+  ReportFieldData,
+  ReportSummary,
+  ResultKeys,
+  ScheduledRunSummary,
+  SummaryResponse,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryMetadata,
 } from "../types";
-import { RESULTS_BUCKET_PREFIX, RESULTS_EXPIRY_DAYS } from "../constants";
-
-const KV_PREFIX_RECORD = "record:";
-const KV_PREFIX_URL = "url:";
+import {
+  ORPHAN_SWEEP_GRACE_MS,
+  RECORD_EXPIRY_DAYS,
+  RESULTS_BUCKET_PREFIX,
+  RESULTS_EXPIRY_DAYS,
+  SCHEDULED_RUN_SUMMARY_TTL_SECONDS,
+  WEBHOOK_DELIVERY_TTL_SECONDS,
+} from "../constants";
+import { DEFAULT_AUDIT_OPTIONS } from "./audit-options";
+import { getRecordStore } from "./record-store";
+import { canTransition } from "./record-status";
+import { extractReportFieldData } from "./field-data";
+import type { RecordListFilter, RecordPageQuery } from "./record-store";
+
+const KV_PREFIX_BUDGET = "budget:";
+const KV_PREFIX_WEBHOOK = "webhook:";
+const KV_PREFIX_WEBHOOK_DELIVERY = "webhook-delivery:";
+const KV_PREFIX_TOKEN = "token:";
+const KV_PREFIX_USAGE = "usage:";
+const KV_PREFIX_BATCH = "batch:";
+const KV_PREFIX_MONITOR = "monitor:";
+const KV_PREFIX_SCHEDULED_RUN = "scheduled-run:";
 
 export interface StoredRecord {
   publicId: string;
@@ -21,18 +71,25 @@ export interface StoredRecord {
   status: string;
   dataUrl: string;
   processingStartedAt: number | null;
-}
-
-function recordKey(publicId: string): string {
-  return `${KV_PREFIX_RECORD}${publicId}`;
-}
-
-function urlKey(url: string): string {
-  return `${KV_PREFIX_URL}${url}`;
+  /** Compact scores/metrics; absent on records written before summaries existed */
+  summary?: ReportSummary | null;
+  /** Absent on records written before field data was extracted */
+  fieldData?: ReportFieldData | null;
+  /** Per-form-factor result objects; older records keep the results array at dataUrl */
+  resultKeys?: ResultKeys | null;
+  budgetResult?: BudgetResult | null;
+  callbackUrl?: string | null;
+  /** Absent on records written before audit options existed (DEFAULT_AUDIT_OPTIONS) */
+  options?: AuditOptions;
+  fetchOutcomes?: Partial<Record<FormFactor, FormFactorFetchOutcome>> | null;
+  error?: string | null;
+  errorClass?: PageSpeedErrorClass | null;
+  /** Set on reports scheduled by a monitor */
+  monitorId?: string | null;
 }
 
 /**
- * Creates a new pending record in KV
+ * Creates a new pending record
  * Returns publicId (primary key)
  */
 export async function createPendingRecord(
@@ -48,120 +105,613 @@ export async function createPendingRecord(
     status: request.status,
     dataUrl: "",
     processingStartedAt: null,
+    summary: null,
+    budgetResult: null,
+    callbackUrl: request.callbackUrl ?? null,
+    options: request.options ?? DEFAULT_AUDIT_OPTIONS,
+    monitorId: request.monitorId ?? null,
   };
 
-  await env.KV.put(recordKey(publicId), JSON.stringify(record));
-  await env.KV.put(urlKey(request.requestUrl), publicId);
+  await getRecordStore(env).create(record);
 
   return { id: 0, publicId };
 }
 
 /**
- * Updates an existing record in KV (by publicId)
+ * Updates an existing record (by publicId). Returns null when there is none, or when the
+ * status change is not allowed (see record-status.ts), e.g. a late write to a finished record.
  */
 export async function updateRecord(
   request: UpdateRecordRequest,
   env: Env
 ): Promise<number | null> {
-  const existing = await env.KV.get(recordKey(request.publicId));
+  const store = getRecordStore(env);
+  const existing = await store.get(request.publicId);
   if (!existing) return null;
 
+  if (!canTransition(existing.status as RecordStatus, request.status)) {
+    console.warn(
+      `updateRecord: refusing ${existing.status} -> ${request.status} for publicId ${request.publicId}`
+    );
+    return null;
+  }
+
   const record: StoredRecord = {
-    ...JSON.parse(existing),
+    ...existing,
     status: request.status,
     dataUrl: request.dataUrl,
     processingStartedAt: request.processingStartedAt ?? null,
+    summary: request.summary ?? null,
+    fieldData: request.fieldData ?? null,
+    resultKeys: request.resultKeys ?? null,
+    budgetResult: request.budgetResult ?? null,
+    fetchOutcomes: request.fetchOutcomes ?? null,
+    error: request.error ?? null,
+    errorClass: request.errorClass ?? null,
   };
 
-  await env.KV.put(recordKey(request.publicId), JSON.stringify(record));
-  return 1;
+  return (await store.update(record)) ? 1 : null;
+}
+
+/**
+ * R2 result objects a record points to, whichever layout it was written with
+ */
+export function resultObjectKeys(record: StoredRecord): string[] {
+  if (record.resultKeys) return Object.values(record.resultKeys);
+  return record.dataUrl ? [record.dataUrl] : [];
+}
+
+/**
+ * Uncompressed body of a result object; objects written before compression are plain JSON
+ */
+export function resultObjectStream(object: R2ObjectBody): ReadableStream<Uint8Array> {
+  return object.httpMetadata?.contentEncoding === "gzip"
+    ? object.body.pipeThrough(new DecompressionStream("gzip"))
+    : object.body;
+}
+
+/**
+ * Reads a record's results as the array runFullReport produced (options.formFactors order);
+ * null when the objects are gone
+ */
+export async function readStoredResults(record: StoredRecord, env: Env): Promise<unknown> {
+  if (!record.resultKeys) {
+    if (!record.dataUrl) return null;
+    const object = await env.RESULTS_BUCKET.get(record.dataUrl);
+    if (!object) return null;
+    const text = await new Response(resultObjectStream(object)).text();
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  const formFactors = (record.options ?? DEFAULT_AUDIT_OPTIONS).formFactors;
+  const results: unknown[] = [];
+  for (const formFactor of formFactors) {
+    const key = record.resultKeys[formFactor];
+    const object = key ? await env.RESULTS_BUCKET.get(key) : null;
+    if (object) results.push(await new Response(resultObjectStream(object)).json());
+  }
+  return results.length > 0 ? results : null;
 }
 
 async function recordToResponse(
   record: StoredRecord,
-  env: Env
+  env: Env,
+  includeRaw: boolean
 ): Promise<RecordResponse> {
-  let data: any = null;
-  if (record.dataUrl) {
-    const bucketData = await env.RESULTS_BUCKET.get(record.dataUrl);
-    if (bucketData) {
-      const text = await bucketData.text();
-      try {
-        data = JSON.parse(text);
-      } catch {
-        data = text;
-      }
-    }
-  }
   return {
     publicId: record.publicId,
     url: record.url,
+    formFactor: record.formFactor,
+    options: record.options ?? DEFAULT_AUDIT_OPTIONS,
     status: record.status,
     dataUrl: record.dataUrl,
-    data,
+    data: includeRaw ? await readStoredResults(record, env) : null,
     processingStartedAt: record.processingStartedAt ?? null,
+    summary: record.summary ?? null,
+    fieldData: record.fieldData ?? null,
+    resultKeys: record.resultKeys ?? null,
+    budgetResult: record.budgetResult ?? null,
+    fetchOutcomes: record.fetchOutcomes ?? null,
+    error: record.error ?? null,
+    errorClass: record.errorClass ?? null,
   };
 }
 
 /**
- * Retrieves a record by URL and time threshold (most recent for URL with date >= threshold)
+ * Retrieves a record by URL, audit options and time threshold
+ * (most recent for URL and options with date >= threshold).
+ * The results are read from R2 into data only with includeRaw.
  */
 export async function getRecordByUrl(
   requestUrl: string,
   timeThreshold: number,
-  env: Env
+  env: Env,
+  options: AuditOptions = DEFAULT_AUDIT_OPTIONS,
+  { includeRaw = false }: { includeRaw?: boolean } = {}
 ): Promise<RecordResponse | null> {
-  const publicId = await env.KV.get(urlKey(requestUrl));
-  if (!publicId) return null;
+  const record = await getRecordStore(env).getLatestByUrl(requestUrl, options);
+  if (!record || record.date < timeThreshold) return null;
 
-  const raw = await env.KV.get(recordKey(publicId));
-  if (!raw) return null;
+  return recordToResponse(record, env, includeRaw);
+}
 
-  const record: StoredRecord = JSON.parse(raw);
-  if (record.date < timeThreshold) return null;
+/**
+ * Retrieves a record by publicId (replaces getRecordById when using publicId as primary).
+ * The results are read from R2 into data only with includeRaw.
+ */
+export async function getRecordByPublicId(
+  publicId: string,
+  env: Env,
+  { includeRaw = false }: { includeRaw?: boolean } = {}
+): Promise<RecordResponse | null> {
+  const record = await getRecordStore(env).get(publicId);
+  return record ? recordToResponse(record, env, includeRaw) : null;
+}
 
-  return recordToResponse(record, env);
+/**
+ * Retrieves the raw stored record (no R2 read)
+ */
+export async function getStoredRecord(
+  publicId: string,
+  env: Env
+): Promise<StoredRecord | null> {
+  return getRecordStore(env).get(publicId);
 }
 
 /**
- * Retrieves a record by publicId (replaces getRecordById when using publicId as primary)
+ * Retrieves only the stored summary for a publicId (no R2 read)
  */
-export async function getRecordByPublicId(
+export async function getSummaryByPublicId(
   publicId: string,
   env: Env
-): Promise<RecordResponse | null> {
-  const raw = await env.KV.get(recordKey(publicId));
-  if (!raw) return null;
+): Promise<SummaryResponse | null> {
+  const record = await getRecordStore(env).get(publicId);
+  if (!record) return null;
+
+  return {
+    publicId: record.publicId,
+    url: record.url,
+    status: record.status,
+    date: record.date,
+    summary: record.summary ?? null,
+  };
+}
+
+/**
+ * Retrieves the CrUX field data for a publicId. Records completed before field data was
+ * stored have it extracted from their R2 results, while those still exist.
+ */
+export async function getFieldDataByPublicId(
+  publicId: string,
+  env: Env
+): Promise<FieldDataResponse | null> {
+  const record = await getRecordStore(env).get(publicId);
+  if (!record) return null;
+
+  let fieldData = record.fieldData ?? null;
+  if (!fieldData && record.status === "completed" && resultObjectKeys(record).length > 0) {
+    const order = (record.options ?? DEFAULT_AUDIT_OPTIONS).formFactors;
+    const results = await readStoredResults(record, env).catch(() => null);
+    fieldData = extractReportFieldData(results, order);
+  }
 
-  const record: StoredRecord = JSON.parse(raw);
-  return recordToResponse(record, env);
+  return {
+    publicId: record.publicId,
+    url: record.url,
+    status: record.status as RecordStatus,
+    fieldData,
+  };
 }
 
 /**
- * Lists all records (lists KV keys with prefix record:)
+ * Lists past runs for a URL, newest first, one page at a time.
+ * The KV store serves this from list metadata without reading record bodies.
  */
-export async function listAllRecords(env: Env): Promise<{
-  total: number;
-  nextId: number;
-  records: Array<{
-    publicId: string;
-    url: string;
-    formFactor: string;
-    date: number;
-    status: string;
-    dataUrl: string;
-    hasData: boolean;
-  }>;
-}> {
+export async function getHistoryByUrl(
+  requestUrl: string,
+  options: { limit: number; cursor?: string },
+  env: Env
+): Promise<HistoryPage> {
+  return getRecordStore(env).getHistory(requestUrl, options);
+}
+
+/**
+ * Creates or replaces a performance budget
+ */
+export async function putBudget(budget: PerformanceBudget, env: Env): Promise<void> {
+  await env.KV.put(`${KV_PREFIX_BUDGET}${budget.id}`, JSON.stringify(budget));
+}
+
+/**
+ * Retrieves a performance budget by id
+ */
+export async function getBudget(id: string, env: Env): Promise<PerformanceBudget | null> {
+  const raw = await env.KV.get(`${KV_PREFIX_BUDGET}${id}`);
+  return raw ? JSON.parse(raw) : null;
+}
+
+/**
+ * Deletes a performance budget; returns false when it did not exist
+ */
+export async function deleteBudget(id: string, env: Env): Promise<boolean> {
+  const existing = await env.KV.get(`${KV_PREFIX_BUDGET}${id}`);
+  if (!existing) return false;
+  await env.KV.delete(`${KV_PREFIX_BUDGET}${id}`);
+  return true;
+}
+
+/**
+ * Lists all performance budgets
+ */
+export async function listBudgets(env: Env): Promise<PerformanceBudget[]> {
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const list = await env.KV.list({ prefix: KV_PREFIX_BUDGET, cursor, limit: 1000 });
+    keys.push(...list.keys.map((k) => k.name));
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+
+  const budgets: PerformanceBudget[] = [];
+  for (const key of keys) {
+    const raw = await env.KV.get(key);
+    if (raw) budgets.push(JSON.parse(raw));
+  }
+  return budgets.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Creates or replaces a standing webhook
+ */
+export async function putWebhook(webhook: Webhook, env: Env): Promise<void> {
+  await env.KV.put(`${KV_PREFIX_WEBHOOK}${webhook.id}`, JSON.stringify(webhook));
+}
+
+/**
+ * Retrieves a standing webhook by id
+ */
+export async function getWebhook(id: string, env: Env): Promise<Webhook | null> {
+  const raw = await env.KV.get(`${KV_PREFIX_WEBHOOK}${id}`);
+  return raw ? JSON.parse(raw) : null;
+}
+
+/**
+ * Deletes a standing webhook; returns false when it did not exist
+ */
+export async function deleteWebhook(id: string, env: Env): Promise<boolean> {
+  const existing = await env.KV.get(`${KV_PREFIX_WEBHOOK}${id}`);
+  if (!existing) return false;
+  await env.KV.delete(`${KV_PREFIX_WEBHOOK}${id}`);
+  return true;
+}
+
+/**
+ * Lists all standing webhooks
+ */
+export async function listWebhooks(env: Env): Promise<Webhook[]> {
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const list = await env.KV.list({ prefix: KV_PREFIX_WEBHOOK, cursor, limit: 1000 });
+    keys.push(...list.keys.map((k) => k.name));
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+
+  const webhooks: Webhook[] = [];
+  for (const key of keys) {
+    const raw = await env.KV.get(key);
+    if (raw) webhooks.push(JSON.parse(raw));
+  }
+  return webhooks.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Stores an API token under the hash of its secret value
+ */
+export async function putApiToken(
+  tokenHash: string,
+  token: ApiToken,
+  env: Env
+): Promise<void> {
+  await env.KV.put(`${KV_PREFIX_TOKEN}${tokenHash}`, JSON.stringify(token), {
+    metadata: token,
+  });
+}
+
+/**
+ * Retrieves an API token by the hash of its secret value
+ */
+export async function getApiTokenByHash(
+  tokenHash: string,
+  env: Env
+): Promise<ApiToken | null> {
+  const raw = await env.KV.get(`${KV_PREFIX_TOKEN}${tokenHash}`);
+  return raw ? JSON.parse(raw) : null;
+}
+
+/**
+ * Lists API tokens from KV list metadata (hashes are not returned)
+ */
+export async function listApiTokens(env: Env): Promise<ApiToken[]> {
+  const tokens: ApiToken[] = [];
+  let cursor: string | undefined;
+  do {
+    const list = await env.KV.list<ApiToken>({ prefix: KV_PREFIX_TOKEN, cursor, limit: 1000 });
+    for (const key of list.keys) {
+      if (key.metadata) tokens.push(key.metadata);
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+  return tokens.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Revokes (deletes) an API token by id; returns false when it did not exist
+ */
+export async function deleteApiToken(id: string, env: Env): Promise<boolean> {
+  let cursor: string | undefined;
+  do {
+    const list = await env.KV.list<ApiToken>({ prefix: KV_PREFIX_TOKEN, cursor, limit: 1000 });
+    const match = list.keys.find((key) => key.metadata?.id === id);
+    if (match) {
+      await env.KV.delete(match.name);
+      return true;
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+  return false;
+}
+
+/**
+ * Reads a usage counter (0 when absent)
+ */
+export async function getUsageCount(
+  window: string,
+  subject: string,
+  env: Env
+): Promise<number> {
+  const raw = await env.KV.get(`${KV_PREFIX_USAGE}${window}:${subject}`);
+  return raw ? Number(raw) || 0 : 0;
+}
+
+/**
+ * Increments a usage counter by `by`. KV has no atomic increment, so concurrent
+ * requests can undercount; only used when USAGE_COUNTER is not bound.
+ * A failed write (KV allows about one write per second per key) is logged, not thrown:
+ * the request goes through uncounted rather than failing.
+ */
+export async function incrementUsageCount(
+  window: string,
+  subject: string,
+  expirationTtl: number,
+  env: Env,
+  by: number = 1
+): Promise<number> {
+  const count = (await getUsageCount(window, subject, env)) + by;
+  try {
+    await env.KV.put(`${KV_PREFIX_USAGE}${window}:${subject}`, String(count), {
+      expirationTtl,
+      metadata: { count },
+    });
+  } catch (error) {
+    console.error(`incrementUsageCount: failed to write ${window}:${subject}`, error);
+  }
+  return count;
+}
+
+/**
+ * Lists usage counters in a window whose subject starts with subjectPrefix
+ */
+export async function listUsageCounts(
+  window: string,
+  subjectPrefix: string,
+  env: Env
+): Promise<Array<{ subject: string; count: number }>> {
+  const prefix = `${KV_PREFIX_USAGE}${window}:${subjectPrefix}`;
+  const out: Array<{ subject: string; count: number }> = [];
+  let cursor: string | undefined;
+  do {
+    const list = await env.KV.list<{ count: number }>({ prefix, cursor, limit: 1000 });
+    for (const key of list.keys) {
+      out.push({
+        subject: key.name.slice(`${KV_PREFIX_USAGE}${window}:`.length),
+        count: key.metadata?.count ?? 0,
+      });
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+  return out;
+}
+
+/**
+ * Stores a batch; batches expire with the records they point to
+ */
+export async function putBatch(batch: BatchRecord, env: Env): Promise<void> {
+  await env.KV.put(`${KV_PREFIX_BATCH}${batch.id}`, JSON.stringify(batch), {
+    expirationTtl: RECORD_EXPIRY_DAYS * 24 * 60 * 60,
+  });
+}
+
+/**
+ * Retrieves a batch by id
+ */
+export async function getBatch(id: string, env: Env): Promise<BatchRecord | null> {
+  const raw = await env.KV.get(`${KV_PREFIX_BATCH}${id}`);
+  return raw ? JSON.parse(raw) : null;
+}
+
+/**
+ * Creates or replaces a monitor; the list metadata mirrors its schedule
+ */
+export async function putMonitor(monitor: Monitor, env: Env): Promise<void> {
+  const metadata: MonitorMetadata = {
+    status: monitor.status,
+    nextRunAt: monitor.nextRunAt,
+  };
+  await env.KV.put(`${KV_PREFIX_MONITOR}${monitor.id}`, JSON.stringify(monitor), {
+    metadata,
+  });
+}
+
+/**
+ * Retrieves a monitor by id
+ */
+export async function getMonitor(id: string, env: Env): Promise<Monitor | null> {
+  const raw = await env.KV.get(`${KV_PREFIX_MONITOR}${id}`);
+  return raw ? JSON.parse(raw) : null;
+}
+
+/**
+ * Deletes a monitor; returns false when it did not exist
+ */
+export async function deleteMonitor(id: string, env: Env): Promise<boolean> {
+  const existing = await env.KV.get(`${KV_PREFIX_MONITOR}${id}`);
+  if (!existing) return false;
+  await env.KV.delete(`${KV_PREFIX_MONITOR}${id}`);
+  return true;
+}
+
+/**
+ * Lists all monitors
+ */
+export async function listMonitors(env: Env): Promise<Monitor[]> {
   const keys: string[] = [];
   let cursor: string | undefined;
   do {
-    const list = await env.KV.list({ prefix: KV_PREFIX_RECORD, cursor, limit: 1000 });
+    const list = await env.KV.list({ prefix: KV_PREFIX_MONITOR, cursor, limit: 1000 });
     keys.push(...list.keys.map((k) => k.name));
     cursor = list.list_complete ? undefined : list.cursor;
   } while (cursor);
 
-  const records: Array<{
+  const monitors: Monitor[] = [];
+  for (const key of keys) {
+    const raw = await env.KV.get(key);
+    if (raw) monitors.push(JSON.parse(raw));
+  }
+  return monitors.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Ids of active monitors whose nextRunAt is at or before now, read from list metadata
+ */
+export async function listDueMonitorIds(now: number, env: Env): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const list = await env.KV.list<MonitorMetadata>({
+      prefix: KV_PREFIX_MONITOR,
+      cursor,
+      limit: 1000,
+    });
+    for (const key of list.keys) {
+      if (key.metadata?.status === "active" && key.metadata.nextRunAt <= now) {
+        ids.push(key.name.slice(KV_PREFIX_MONITOR.length));
+      }
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+  return ids;
+}
+
+/**
+ * Returns the one-off callbackUrl stored on a record, if any
+ */
+export async function getRecordCallbackUrl(
+  publicId: string,
+  env: Env
+): Promise<string | null> {
+  const record = await getRecordStore(env).get(publicId);
+  return record?.callbackUrl ?? null;
+}
+
+/**
+ * Writes a webhook delivery; the list metadata mirrors its current state
+ */
+export async function putWebhookDelivery(
+  delivery: WebhookDelivery,
+  env: Env
+): Promise<void> {
+  const metadata: WebhookDeliveryMetadata = {
+    webhookId: delivery.webhookId,
+    publicId: delivery.publicId,
+    type: delivery.event.type,
+    status: delivery.status,
+    attemptCount: delivery.attempts.length,
+    nextAttemptAt: delivery.nextAttemptAt,
+    createdAt: delivery.createdAt,
+  };
+  await env.KV.put(`${KV_PREFIX_WEBHOOK_DELIVERY}${delivery.id}`, JSON.stringify(delivery), {
+    metadata,
+    expirationTtl: WEBHOOK_DELIVERY_TTL_SECONDS,
+  });
+}
+
+/**
+ * Retrieves a webhook delivery by id
+ */
+export async function getWebhookDelivery(
+  id: string,
+  env: Env
+): Promise<WebhookDelivery | null> {
+  const raw = await env.KV.get(`${KV_PREFIX_WEBHOOK_DELIVERY}${id}`);
+  return raw ? JSON.parse(raw) : null;
+}
+
+/**
+ * Lists webhook delivery metadata, newest first, filtered on the list metadata
+ */
+export async function listWebhookDeliveries(
+  filter: (metadata: WebhookDeliveryMetadata) => boolean,
+  env: Env
+): Promise<Array<WebhookDeliveryMetadata & { id: string }>> {
+  const out: Array<WebhookDeliveryMetadata & { id: string }> = [];
+  let cursor: string | undefined;
+  do {
+    const list = await env.KV.list<WebhookDeliveryMetadata>({
+      prefix: KV_PREFIX_WEBHOOK_DELIVERY,
+      cursor,
+      limit: 1000,
+    });
+    for (const key of list.keys) {
+      if (key.metadata && filter(key.metadata)) {
+        out.push({ id: key.name.slice(KV_PREFIX_WEBHOOK_DELIVERY.length), ...key.metadata });
+      }
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+
+  return out.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Lists stored records matching the filter, newest first (no R2 reads)
+ */
+export async function listStoredRecords(
+  filter: RecordListFilter,
+  env: Env
+): Promise<StoredRecord[]> {
+  return getRecordStore(env).list(filter);
+}
+
+/**
+ * Lists one page of records matching the query, newest first. Only index data is
+ * returned, so the KV store answers from list metadata without reading record bodies.
+ */
+export async function listRecordPage(query: RecordPageQuery, env: Env): Promise<RecordListPage> {
+  return getRecordStore(env).listPage(query);
+}
+
+/**
+ * Lists all records, newest first
+ */
+export async function listAllRecords(env: Env): Promise<{
+  total: number;
+  nextId: number;
+  records: Array<{
     publicId: string;
     url: string;
     formFactor: string;
@@ -169,24 +719,19 @@ export async function listAllRecords(env: Env): Promise<{
     status: string;
     dataUrl: string;
     hasData: boolean;
-  }> = [];
-
-  for (const key of keys) {
-    const raw = await env.KV.get(key);
-    if (!raw) continue;
-    const r: StoredRecord = JSON.parse(raw);
-    records.push({
-      publicId: r.publicId,
-      url: r.url,
-      formFactor: r.formFactor,
-      date: r.date,
-      status: r.status,
-      dataUrl: r.dataUrl,
-      hasData: !!r.dataUrl,
-    });
-  }
-
-  records.sort((a, b) => b.date - a.date);
+    summary: ReportSummary | null;
+  }>;
+}> {
+  const records = (await getRecordStore(env).list()).map((r) => ({
+    publicId: r.publicId,
+    url: r.url,
+    formFactor: r.formFactor,
+    date: r.date,
+    status: r.status,
+    dataUrl: r.dataUrl,
+    hasData: resultObjectKeys(r).length > 0,
+    summary: r.summary ?? null,
+  }));
 
   return {
     total: records.length,
@@ -196,59 +741,200 @@ export async function listAllRecords(env: Env): Promise<{
 }
 
 /**
- * Saves PageSpeed results to R2 bucket
+ * Saves each form factor's PageSpeed result to the R2 bucket as gzip-compressed JSON
+ * and returns the keys
  */
 export async function saveResultsToBucket(
-  _recordId: number,
+  publicId: string,
   url: string,
-  results: any[],
-  env: Env,
-  publicId?: string
-): Promise<string> {
-  const idPart = publicId ?? _recordId;
-  const key = `${RESULTS_BUCKET_PREFIX}${idPart}-${encodeURIComponent(url)}.json`;
+  results: Partial<Record<FormFactor, PageSpeedApiResponse>>,
+  env: Env
+): Promise<ResultKeys> {
   const expiresAt = new Date(
     Date.now() + RESULTS_EXPIRY_DAYS * 24 * 60 * 60 * 1000
   ).toISOString();
 
-  await env.RESULTS_BUCKET.put(key, JSON.stringify(results), {
-    httpMetadata: { contentType: "application/json" },
-    customMetadata: { expiresAt },
-  });
+  const keys: ResultKeys = {};
+  const entries = Object.entries(results) as [FormFactor, PageSpeedApiResponse][];
+  for (const [formFactor, result] of entries) {
+    const suffix = `${formFactor.toLowerCase()}.json.gz`;
+    const key = `${RESULTS_BUCKET_PREFIX}${publicId}-${encodeURIComponent(url)}.${suffix}`;
+    // R2 needs the length up front, so the compressed body is buffered
+    const compressed = await new Response(
+      new Response(JSON.stringify(result)).body!.pipeThrough(new CompressionStream("gzip"))
+    ).arrayBuffer();
+
+    await env.RESULTS_BUCKET.put(key, compressed, {
+      httpMetadata: { contentType: "application/json", contentEncoding: "gzip" },
+      customMetadata: { expiresAt },
+    });
+    keys[formFactor] = key;
+  }
 
-  return key;
+  return keys;
 }
 
 /**
- * Deletes old records from KV (older than daysOld)
+ * Deletes R2 objects, at most 1000 keys per call (the R2 limit)
+ */
+async function deleteResultObjects(keys: string[], env: Env): Promise<void> {
+  for (let i = 0; i < keys.length; i += 1000) {
+    await env.RESULTS_BUCKET.delete(keys.slice(i, i + 1000));
+  }
+}
+
+/**
+ * Deletes old records (older than daysOld) and their R2 result objects.
+ * A dry run lists what would be removed without deleting anything.
  */
 export async function deleteOldRecordsFromStorage(
   daysOld: number = 10,
-  env: Env
-): Promise<{ success: boolean; deletedCount: number; daysOld: number }> {
+  env: Env,
+  options: { dryRun?: boolean } = {}
+): Promise<DeleteOldRecordsResult> {
   const cutoff = Date.now() - daysOld * 24 * 60 * 60 * 1000;
-  const keys: string[] = [];
+  const store = getRecordStore(env);
+  const dryRun = options.dryRun ?? false;
+
+  const expired = dryRun
+    ? await store.list({ to: cutoff - 1 })
+    : await store.deleteOlderThan(cutoff);
+  const blobKeys = expired.flatMap(resultObjectKeys);
+
+  if (!dryRun) {
+    await deleteResultObjects(blobKeys, env);
+  }
+
+  return {
+    success: true,
+    dryRun,
+    daysOld,
+    deletedCount: expired.length,
+    deletedBlobCount: blobKeys.length,
+    records: expired.map((r) => ({
+      publicId: r.publicId,
+      url: r.url,
+      date: r.date,
+      objectKeys: resultObjectKeys(r),
+    })),
+  };
+}
+
+/**
+ * Deletes R2 result objects whose expiresAt custom metadata is in the past
+ */
+export async function deleteExpiredResultsFromBucket(
+  env: Env
+): Promise<{ success: boolean; deletedCount: number }> {
+  const now = Date.now();
+  const expiredKeys: string[] = [];
   let cursor: string | undefined;
   do {
-    const list = await env.KV.list({ prefix: KV_PREFIX_RECORD, cursor, limit: 1000 });
-    keys.push(...list.keys.map((k) => k.name));
-    cursor = list.list_complete ? undefined : list.cursor;
+    const list = await env.RESULTS_BUCKET.list({
+      prefix: RESULTS_BUCKET_PREFIX,
+      cursor,
+      limit: 1000,
+      include: ["customMetadata"],
+    });
+    for (const object of list.objects) {
+      const expiresAt = object.customMetadata?.expiresAt;
+      if (expiresAt && Date.parse(expiresAt) < now) expiredKeys.push(object.key);
+    }
+    cursor = list.truncated ? list.cursor : undefined;
   } while (cursor);
 
-  let deletedCount = 0;
-  for (const key of keys) {
-    const raw = await env.KV.get(key);
-    if (!raw) continue;
-    const r: StoredRecord = JSON.parse(raw);
-    if (r.date < cutoff) {
-      await env.KV.delete(key);
-      const urlVal = await env.KV.get(urlKey(r.url));
-      if (urlVal === r.publicId) await env.KV.delete(urlKey(r.url));
-      deletedCount++;
+  await deleteResultObjects(expiredKeys, env);
+
+  return { success: true, deletedCount: expiredKeys.length };
+}
+
+/**
+ * Finds R2 result objects under RESULTS_BUCKET_PREFIX that no record points to, and records
+ * whose result objects are gone (results expire before their records do). With fix, deletes
+ * the orphaned objects and clears the dangling references. Objects newer than
+ * ORPHAN_SWEEP_GRACE_MS are skipped because their record may not be updated yet.
+ */
+export async function sweepOrphanedResults(
+  env: Env,
+  options: { fix?: boolean } = {}
+): Promise<OrphanSweepResult> {
+  const fix = options.fix ?? false;
+  const graceCutoff = Date.now() - ORPHAN_SWEEP_GRACE_MS;
+
+  const objectKeys = new Set<string>();
+  const settledKeys: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const list = await env.RESULTS_BUCKET.list({
+      prefix: RESULTS_BUCKET_PREFIX,
+      cursor,
+      limit: 1000,
+    });
+    for (const object of list.objects) {
+      objectKeys.add(object.key);
+      if (object.uploaded.getTime() < graceCutoff) settledKeys.push(object.key);
+    }
+    cursor = list.truncated ? list.cursor : undefined;
+  } while (cursor);
+
+  const store = getRecordStore(env);
+  const records = await store.list();
+  const referenced = new Set(records.flatMap(resultObjectKeys));
+
+  const orphanedObjects = settledKeys.filter((key) => !referenced.has(key));
+
+  const missing: Array<{ record: StoredRecord; key: string }> = [];
+  for (const record of records) {
+    for (const key of resultObjectKeys(record)) {
+      if (objectKeys.has(key)) continue;
+      // Confirm with a head request: the object may sit outside the prefix or be newer than the list
+      if (!(await env.RESULTS_BUCKET.head(key))) missing.push({ record, key });
     }
   }
 
-  return { success: true, deletedCount, daysOld };
+  if (fix) {
+    await deleteResultObjects(orphanedObjects, env);
+    const missingByRecord = new Map<string, { record: StoredRecord; keys: Set<string> }>();
+    for (const { record, key } of missing) {
+      const entry = missingByRecord.get(record.publicId) ?? { record, keys: new Set<string>() };
+      entry.keys.add(key);
+      missingByRecord.set(record.publicId, entry);
+    }
+    for (const { record, keys } of missingByRecord.values()) {
+      const resultKeys = record.resultKeys
+        ? (Object.fromEntries(
+            Object.entries(record.resultKeys).filter(([, key]) => !keys.has(key!))
+          ) as ResultKeys)
+        : null;
+      await store.update({
+        ...record,
+        dataUrl: keys.has(record.dataUrl) ? "" : record.dataUrl,
+        resultKeys: resultKeys && Object.keys(resultKeys).length > 0 ? resultKeys : null,
+      });
+    }
+  }
+
+  return {
+    fixed: fix,
+    scannedObjects: objectKeys.size,
+    scannedRecords: records.length,
+    orphanedObjects,
+    missingBlobs: missing.map(({ record, key }) => ({ publicId: record.publicId, key })),
+  };
+}
+
+/**
+ * Saves a scheduled run summary to KV (per-run key plus a latest pointer)
+ */
+export async function saveScheduledRunSummary(
+  summary: ScheduledRunSummary,
+  env: Env
+): Promise<void> {
+  const value = JSON.stringify(summary);
+  await env.KV.put(`${KV_PREFIX_SCHEDULED_RUN}${summary.startedAt}`, value, {
+    expirationTtl: SCHEDULED_RUN_SUMMARY_TTL_SECONDS,
+  });
+  await env.KV.put(`${KV_PREFIX_SCHEDULED_RUN}latest`, value);
 }
 
 /**
@@ -266,50 +952,21 @@ export async function getStuckProcessingRecords(
     date: number;
     status: string;
     processingStartedAt: number | null;
+    options: AuditOptions;
     data: any;
   }>
 > {
   const cutoff = Date.now() - maxProcessingDurationMs;
-  const keys: string[] = [];
-  let cursor: string | undefined;
-  do {
-    const list = await env.KV.list({ prefix: KV_PREFIX_RECORD, cursor, limit: 1000 });
-    keys.push(...list.keys.map((k) => k.name));
-    cursor = list.list_complete ? undefined : list.cursor;
-  } while (cursor);
-
-  const out: Array<{
-    id: number;
-    publicId: string;
-    url: string;
-    formFactor: string;
-    date: number;
-    status: string;
-    processingStartedAt: number | null;
-    data: any;
-  }> = [];
-
-  for (const key of keys) {
-    const raw = await env.KV.get(key);
-    if (!raw) continue;
-    const r: StoredRecord = JSON.parse(raw);
-    if (
-      r.status === "processing" &&
-      r.processingStartedAt != null &&
-      r.processingStartedAt < cutoff
-    ) {
-      out.push({
-        id: 0,
-        publicId: r.publicId,
-        url: r.url,
-        formFactor: r.formFactor,
-        date: r.date,
-        status: r.status,
-        processingStartedAt: r.processingStartedAt,
-        data: null,
-      });
-    }
-  }
-
-  return out;
+  const stuck = await getRecordStore(env).findStuck(cutoff);
+  return stuck.map((r) => ({
+    id: 0,
+    publicId: r.publicId,
+    url: r.url,
+    formFactor: r.formFactor,
+    date: r.date,
+    status: r.status,
+    processingStartedAt: r.processingStartedAt,
+    options: r.options ?? DEFAULT_AUDIT_OPTIONS,
+    data: null,
+  }));
 }
@@ -0,0 +1,137 @@
+/**
+ * Extraction of compact summaries from PageSpeed Insights responses
+ */
+
+import type {
+  CategoryScores,
+  FieldDataSummary,
+  FieldMetricSummary,
+  FormFactor,
+  FormFactorSummary,
+  HeadlineScores,
+  LabMetric,
+  LabMetrics,
+  PageSpeedApiResponse,
+  ReportSummary,
+} from "../types";
+import { LAB_METRIC_AUDITS, PAGESPEED_CATEGORIES } from "../constants";
+
+const STORED_FORM_FACTOR_ORDER: FormFactor[] = ["MOBILE", "DESKTOP"];
+
+/**
+ * Maps a PAGESPEED_CATEGORIES entry to its Lighthouse category id
+ * (e.g. BEST_PRACTICES -> best-practices)
+ */
+export function lighthouseCategoryId(category: string): string {
+  return category.toLowerCase().replace(/_/g, "-");
+}
+
+/**
+ * Extracts the category scores (0-100) from a PageSpeed API response
+ */
+export function extractCategoryScores(data: PageSpeedApiResponse): CategoryScores {
+  const categories = data?.lighthouseResult?.categories ?? {};
+  const scores: CategoryScores = {};
+  for (const category of PAGESPEED_CATEGORIES) {
+    // Categories that were not requested are omitted rather than reported as null
+    const result = categories[lighthouseCategoryId(category)];
+    if (!result) continue;
+    scores[category] = typeof result.score === "number" ? Math.round(result.score * 100) : null;
+  }
+  return scores;
+}
+
+/**
+ * Extracts the lab metric values from a PageSpeed API response
+ */
+export function extractLabMetrics(data: PageSpeedApiResponse): LabMetrics {
+  const audits = data?.lighthouseResult?.audits ?? {};
+  const metrics = {} as LabMetrics;
+  for (const metric of Object.keys(LAB_METRIC_AUDITS) as LabMetric[]) {
+    const value = audits[LAB_METRIC_AUDITS[metric]]?.numericValue;
+    metrics[metric] = typeof value === "number" ? value : null;
+  }
+  return metrics;
+}
+
+/**
+ * Splits the stored results array into responses keyed by form factor.
+ * Uses the Lighthouse configSettings.formFactor when present, else the
+ * order runFullReport saved in (options.formFactors; [mobile, desktop] by default).
+ */
+export function resultsByFormFactor(
+  results: unknown,
+  order: FormFactor[] = STORED_FORM_FACTOR_ORDER
+): Partial<Record<FormFactor, PageSpeedApiResponse>> {
+  const out: Partial<Record<FormFactor, PageSpeedApiResponse>> = {};
+  if (!Array.isArray(results)) return out;
+
+  results.forEach((result: PageSpeedApiResponse, index) => {
+    if (!result || result.error) return;
+    const declared = result.lighthouseResult?.configSettings?.formFactor;
+    const formFactor =
+      typeof declared === "string"
+        ? (declared.toUpperCase() as FormFactor)
+        : order[index];
+    if (formFactor) out[formFactor] = result;
+  });
+  return out;
+}
+
+/**
+ * Extracts the CrUX field data from a PageSpeed API response (null when absent)
+ */
+export function extractFieldData(data: PageSpeedApiResponse): FieldDataSummary | null {
+  const experience = data?.loadingExperience;
+  if (!experience?.metrics) return null;
+
+  const metrics: Record<string, FieldMetricSummary> = {};
+  for (const [name, metric] of Object.entries<any>(experience.metrics)) {
+    metrics[name] = {
+      percentile: typeof metric?.percentile === "number" ? metric.percentile : null,
+      category: metric?.category ?? null,
+    };
+  }
+
+  return { overallCategory: experience.overall_category ?? null, metrics };
+}
+
+/**
+ * Builds the compact summary for one form factor's PageSpeed API response
+ */
+export function summarizeResult(data: PageSpeedApiResponse): FormFactorSummary {
+  return {
+    categories: extractCategoryScores(data),
+    metrics: extractLabMetrics(data),
+    fieldData: extractFieldData(data),
+    lighthouseVersion: data?.lighthouseResult?.lighthouseVersion ?? null,
+    fetchTime: data?.lighthouseResult?.fetchTime ?? null,
+  };
+}
+
+/**
+ * Builds the report summary from the stored results array
+ */
+export function summarizeResults(
+  results: unknown,
+  order: FormFactor[] = STORED_FORM_FACTOR_ORDER
+): ReportSummary {
+  const summary: ReportSummary = {};
+  const byFormFactor = resultsByFormFactor(results, order);
+  for (const formFactor of Object.keys(byFormFactor) as FormFactor[]) {
+    summary[formFactor] = summarizeResult(byFormFactor[formFactor]!);
+  }
+  return summary;
+}
+
+/**
+ * Reduces a report summary to the category scores kept in the URL history index
+ */
+export function headlineScores(summary: ReportSummary | null): HeadlineScores | null {
+  if (!summary) return null;
+  const scores: HeadlineScores = {};
+  for (const formFactor of Object.keys(summary) as FormFactor[]) {
+    scores[formFactor] = summary[formFactor]!.categories;
+  }
+  return scores;
+}
@@ -0,0 +1,128 @@
+/**
+ * Target URL canonicalization and validation
+ *
+ * Every URL used in a storage key, rate-limit counter or PageSpeed API call goes
+ * through normalizeTargetUrl first, so equivalent spellings share one cache entry:
+ * - scheme must be http or https; credentials are rejected
+ * - host is lowercased and default ports dropped (the URL API does both)
+ * - fragment is dropped
+ * - tracking params are stripped and the remaining params sorted by name
+ * - localhost, private/reserved IPs and single-label hosts are rejected
+ * - URLs longer than MAX_TARGET_URL_KEY_LENGTH once percent-encoded are rejected
+ */
+
+import { DEFAULT_TRACKING_PARAMS, MAX_TARGET_URL_KEY_LENGTH } from "../constants";
+
+export type UrlNormalizationResult = { url: string } | { error: string };
+
+/** Hostname suffixes that never resolve to a public site */
+const NON_PUBLIC_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".home.arpa"];
+
+function isPrivateIPv4(host: string): boolean {
+  const match = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!match) return false;
+  const [a, b] = [Number(match[1]), Number(match[2])];
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224 // multicast and reserved
+  );
+}
+
+function isPrivateIPv6(host: string): boolean {
+  if (!host.startsWith("[")) return false;
+  const address = host.slice(1, -1).toLowerCase();
+  if (address === "::" || address === "::1") return true;
+  // IPv4-mapped (::ffff:a.b.c.d is serialized as ::ffff:xxxx:xxxx)
+  if (address.startsWith("::ffff:")) return true;
+  return /^f[cd]/.test(address) || /^fe[89ab]/.test(address);
+}
+
+/**
+ * Parses TRACKING_PARAMS (comma-separated), falling back to DEFAULT_TRACKING_PARAMS
+ */
+export function trackingParamsFromEnv(env: Env): string[] {
+  const configured = env.TRACKING_PARAMS?.split(",")
+    .map((p) => p.trim().toLowerCase())
+    .filter(Boolean);
+  return configured?.length ? configured : DEFAULT_TRACKING_PARAMS;
+}
+
+function isTrackingParam(name: string, trackingParams: string[]): boolean {
+  const lower = name.toLowerCase();
+  return trackingParams.some((param) =>
+    param.endsWith("*") ? lower.startsWith(param.slice(0, -1)) : lower === param
+  );
+}
+
+/**
+ * Why a host may not be fetched (localhost, private or reserved addresses, single-label
+ * names); null when it is public. Also used for webhook callback hosts.
+ */
+export function nonPublicHostReason(hostname: string): string | null {
+  const host = hostname.replace(/\.$/, "");
+  if (
+    host === "localhost" ||
+    NON_PUBLIC_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix)) ||
+    isPrivateIPv4(host) ||
+    isPrivateIPv6(host)
+  ) {
+    return `Host ${host} is not publicly reachable.`;
+  }
+  if (!host.includes(".") && !host.startsWith("[")) {
+    return `Host ${host} is not a fully qualified domain name.`;
+  }
+  return null;
+}
+
+/**
+ * Canonicalizes and validates a target URL; returns an error message suitable for a 400.
+ * param names the parameter or field in error messages.
+ */
+export function normalizeTargetUrl(
+  input: string,
+  trackingParams: string[] = DEFAULT_TRACKING_PARAMS,
+  param: string = "url"
+): UrlNormalizationResult {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return { error: `Invalid ${param} parameter. Must be an absolute http(s) URL.` };
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return { error: `Invalid ${param} parameter. Scheme ${url.protocol} is not allowed; use http or https.` };
+  }
+
+  if (url.username || url.password) {
+    return { error: `Invalid ${param} parameter. URLs with credentials are not allowed.` };
+  }
+
+  const hostError = nonPublicHostReason(url.hostname);
+  if (hostError) {
+    return { error: `Invalid ${param} parameter. ${hostError}` };
+  }
+
+  url.hostname = url.hostname.replace(/\.$/, "");
+  url.hash = "";
+
+  for (const name of [...new Set(url.searchParams.keys())]) {
+    if (isTrackingParam(name, trackingParams)) url.searchParams.delete(name);
+  }
+  url.searchParams.sort();
+
+  const canonical = url.toString();
+  if (encodeURIComponent(canonical).length > MAX_TARGET_URL_KEY_LENGTH) {
+    return {
+      error: `Invalid ${param} parameter. URL is too long (at most ${MAX_TARGET_URL_KEY_LENGTH} characters once percent-encoded).`,
+    };
+  }
+
+  return { url: canonical };
+}
@@ -0,0 +1,30 @@
+/**
+ * URL pattern matching shared by budgets and webhooks
+ */
+
+import { normalizeTargetUrl } from "./url-normalization";
+
+/**
+ * Matches a URL against a pattern (exact, or * as a wildcard)
+ */
+export function matchesUrlPattern(pattern: string, url: string): boolean {
+  if (!pattern.includes("*")) return pattern === url;
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`).test(url);
+}
+
+/**
+ * Canonicalizes an exact pattern the way target URLs are (see normalizeTargetUrl), so it
+ * can match them; wildcard patterns are kept as written
+ */
+export function normalizeUrlPattern(
+  pattern: string,
+  trackingParams?: string[]
+): { pattern: string } | { error: string } {
+  if (pattern.includes("*")) return { pattern };
+  const normalized = normalizeTargetUrl(pattern, trackingParams, "urlPattern");
+  return "error" in normalized ? normalized : { pattern: normalized.url };
+}
@@ -0,0 +1,206 @@
+/**
+ * Webhook notifications for completed and failed reports
+ *
+ * Each event is POSTed as JSON with these headers:
+ * - X-Webhook-Id: delivery id (stable across retries)
+ * - X-Webhook-Event: event type
+ * - X-Webhook-Timestamp: unix seconds when the attempt was signed
+ * - X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "{timestamp}.{body}">
+ * The first attempt is made immediately; failed deliveries are retried by the
+ * scheduled sweep using WEBHOOK_RETRY_DELAYS_MS. A delivery with no secret to sign it,
+ * or whose callback host is not public, fails without being sent.
+ */
+
+import type {
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventType,
+} from "../types";
+import { WEBHOOK_RETRY_DELAYS_MS, WEBHOOK_TIMEOUT_MS } from "../constants";
+import {
+  getRecordCallbackUrl,
+  getWebhook,
+  getWebhookDelivery,
+  listWebhookDeliveries,
+  listWebhooks,
+  putWebhookDelivery,
+} from "./storage";
+import { matchesUrlPattern } from "./url-pattern";
+import { nonPublicHostReason } from "./url-normalization";
+
+/**
+ * Validates a webhook callback URL: absolute http(s) on a public host (the same host
+ * rules as target URLs). Returns an error message suitable for a 400, or null.
+ */
+export function callbackUrlError(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Must be an http(s) URL.";
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "Must be an http(s) URL.";
+  }
+  return nonPublicHostReason(url.hostname);
+}
+
+/**
+ * Hex-encoded HMAC-SHA256 signature of "{timestamp}.{body}"
+ */
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return [...new Uint8Array(signature)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Signing secret for a delivery: the standing webhook's own secret, or the
+ * worker-wide secret for one-off callbacks. An error when there is none to sign with;
+ * deliveries are never sent unsigned.
+ */
+async function deliverySecret(
+  delivery: WebhookDelivery,
+  env: Env
+): Promise<{ secret: string } | { error: string }> {
+  if (!delivery.webhookId) {
+    return env.WEBHOOK_SIGNING_SECRET
+      ? { secret: env.WEBHOOK_SIGNING_SECRET }
+      : { error: "WEBHOOK_SIGNING_SECRET is not configured" };
+  }
+  const webhook = await getWebhook(delivery.webhookId, env);
+  return webhook ? { secret: webhook.secret } : { error: "Webhook no longer exists" };
+}
+
+/**
+ * Makes one delivery attempt and stores the outcome (next retry or final status)
+ */
+async function attemptDelivery(delivery: WebhookDelivery, env: Env): Promise<WebhookDelivery> {
+  const now = Date.now();
+  const hostError = callbackUrlError(delivery.callbackUrl);
+  const signing = hostError ? { error: hostError } : await deliverySecret(delivery, env);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  if ("error" in signing) {
+    // Not deliverable at all; retrying cannot help
+    error = signing.error;
+  } else {
+    const { secret } = signing;
+    const body = JSON.stringify(delivery.event);
+    const timestamp = Math.floor(now / 1000);
+    try {
+      const response = await fetch(delivery.callbackUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Webhook-Id": delivery.id,
+          "X-Webhook-Event": delivery.event.type,
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": `sha256=${await signWebhookPayload(secret, timestamp, body)}`,
+        },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      if (!response.ok) error = `HTTP ${response.status}`;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  const attempts = [...delivery.attempts, { at: now, responseStatus, error }];
+  const retryDelay = WEBHOOK_RETRY_DELAYS_MS[attempts.length - 1];
+  const canRetry = error !== null && !("error" in signing) && retryDelay !== undefined;
+
+  const updated: WebhookDelivery = {
+    ...delivery,
+    attempts,
+    status: error === null ? "delivered" : canRetry ? "pending" : "failed",
+    nextAttemptAt: canRetry ? now + retryDelay : null,
+  };
+  await putWebhookDelivery(updated, env);
+  return updated;
+}
+
+/**
+ * Sends a report event to the record's callbackUrl and every matching standing webhook.
+ * Never throws; delivery problems are recorded in the delivery log.
+ */
+export async function dispatchReportEvent(
+  type: WebhookEventType,
+  data: WebhookEvent["data"],
+  env: Env
+): Promise<void> {
+  try {
+    const targets: Array<{ webhookId: string | null; callbackUrl: string }> = [];
+
+    const callbackUrl = await getRecordCallbackUrl(data.publicId, env);
+    if (callbackUrl) targets.push({ webhookId: null, callbackUrl });
+
+    for (const webhook of await listWebhooks(env)) {
+      if (webhook.events.includes(type) && matchesUrlPattern(webhook.urlPattern, data.url)) {
+        targets.push({ webhookId: webhook.id, callbackUrl: webhook.callbackUrl });
+      }
+    }
+
+    await Promise.all(
+      targets.map((target) => {
+        const id = crypto.randomUUID();
+        const createdAt = Date.now();
+        return attemptDelivery(
+          {
+            id,
+            webhookId: target.webhookId,
+            publicId: data.publicId,
+            callbackUrl: target.callbackUrl,
+            event: { id, type, createdAt, data },
+            status: "pending",
+            attempts: [],
+            nextAttemptAt: createdAt,
+            createdAt,
+          },
+          env
+        );
+      })
+    );
+  } catch (error) {
+    console.error(`dispatchReportEvent: failed for publicId ${data.publicId}`, error);
+  }
+}
+
+/**
+ * Retries pending deliveries whose backoff has elapsed
+ */
+export async function retryPendingWebhookDeliveries(
+  env: Env
+): Promise<{ attempted: number; delivered: number; failed: number }> {
+  const now = Date.now();
+  const due = await listWebhookDeliveries(
+    (m) => m.status === "pending" && m.nextAttemptAt != null && m.nextAttemptAt <= now,
+    env
+  );
+
+  let delivered = 0;
+  let failed = 0;
+  for (const { id } of due) {
+    const delivery = await getWebhookDelivery(id, env);
+    if (!delivery || delivery.status !== "pending") continue;
+    const result = await attemptDelivery(delivery, env);
+    if (result.status === "delivered") delivered++;
+    if (result.status === "failed") failed++;
+  }
+
+  return { attempted: due.length, delivered, failed };
+}
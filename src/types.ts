@@ -2,10 +2,400 @@
  * Type definitions for the PageSpeed reporting system
  */
 
+import type {
+  API_SCOPES,
+  FIELD_METRICS,
+  LAB_METRIC_AUDITS,
+  PAGESPEED_CATEGORIES,
+} from "./constants";
+
 export type FormFactor = "DESKTOP" | "MOBILE";
 
+export type PageSpeedCategory = (typeof PAGESPEED_CATEGORIES)[number];
+
+/** Category scores (0-100) per form factor; null when Lighthouse returned no score */
+export type CategoryScores = Partial<Record<PageSpeedCategory, number | null>>;
+
+export type HeadlineScores = Partial<Record<FormFactor, CategoryScores>>;
+
+/** Options a report runs with; part of the cache key for ROOT */
+export interface AuditOptions {
+  formFactors: FormFactor[];
+  categories: PageSpeedCategory[];
+  /** PSI locale for audit text (e.g. en, pt-BR); null for the API default */
+  locale: string | null;
+}
+
+export type LabMetric = keyof typeof LAB_METRIC_AUDITS;
+
+/** Lab metric numeric values (ms, or unitless for CLS); null when missing */
+export type LabMetrics = Record<LabMetric, number | null>;
+
+export interface FieldMetricSummary {
+  percentile: number | null;
+  category: string | null;
+}
+
+/** CrUX field data, keyed by the PSI metric name (e.g. LARGEST_CONTENTFUL_PAINT_MS) */
+export interface FieldDataSummary {
+  overallCategory: string | null;
+  metrics: Record<string, FieldMetricSummary>;
+}
+
+export type FieldMetric = keyof typeof FIELD_METRICS;
+
+/** Core Web Vitals rating, as CrUX reports it */
+export type FieldCategory = "FAST" | "AVERAGE" | "SLOW";
+
+/** Share of page loads between min and max (max null for the open-ended last bucket) */
+export interface FieldDistribution {
+  min: number;
+  max: number | null;
+  proportion: number;
+}
+
+export interface FieldMetricData {
+  /** 75th percentile (ms, or unitless for CLS) */
+  p75: number | null;
+  category: FieldCategory | null;
+  distributions: FieldDistribution[];
+}
+
+/** One PSI loadingExperience (page) or originLoadingExperience (origin) */
+export interface FieldExperience {
+  /** URL or origin the data describes */
+  id: string | null;
+  overallCategory: FieldCategory | null;
+  metrics: Partial<Record<FieldMetric, FieldMetricData>>;
+}
+
+/** A metric whose lab value rates differently from the field p75 */
+export interface LabFieldDisagreement {
+  metric: FieldMetric;
+  labValue: number;
+  labCategory: FieldCategory;
+  fieldP75: number;
+  fieldCategory: FieldCategory;
+}
+
+export interface FormFactorFieldData {
+  /** Page-level data; holds the origin's data when originFallback is true */
+  page: FieldExperience | null;
+  origin: FieldExperience | null;
+  /** CrUX had too little page-level data, so PSI fell back to the origin */
+  originFallback: boolean;
+  disagreements: LabFieldDisagreement[];
+}
+
+/** CrUX field data per form factor, stored on the record when a report completes */
+export type ReportFieldData = Partial<Record<FormFactor, FormFactorFieldData>>;
+
+export interface FieldDataResponse {
+  publicId: string;
+  url: string;
+  status: RecordStatus;
+  fieldData: ReportFieldData | null;
+}
+
+export interface FormFactorSummary {
+  categories: CategoryScores;
+  metrics: LabMetrics;
+  fieldData: FieldDataSummary | null;
+  lighthouseVersion: string | null;
+  fetchTime: string | null;
+}
+
+/** R2 keys of a report's results, one gzip-compressed PSI response per form factor */
+export type ResultKeys = Partial<Record<FormFactor, string>>;
+
+/** Compact per-form-factor summary stored on the record when a report completes */
+export type ReportSummary = Partial<Record<FormFactor, FormFactorSummary>>;
+
+/** Performance budget for a URL or URL pattern, stored in KV */
+export interface PerformanceBudget {
+  id: string;
+  /** Exact URL, or a pattern where * matches any run of characters */
+  urlPattern: string;
+  /** Form factors the budget applies to; all when omitted */
+  formFactors?: FormFactor[];
+  /** Minimum category scores (0-100) */
+  minScores?: CategoryScores;
+  /** Maximum lab metric values (ms, or unitless for CLS) */
+  maxMetrics?: Partial<Record<LabMetric, number>>;
+  /** Maximum transfer size in bytes per Lighthouse resource type (total, script, image, ...) */
+  maxResourceSizes?: Record<string, number>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BudgetViolation {
+  budgetId: string;
+  formFactor: FormFactor;
+  type: "score" | "metric" | "resourceSize";
+  key: string;
+  limit: number;
+  /** null when the report did not contain the value */
+  actual: number | null;
+}
+
+export interface BudgetResult {
+  passed: boolean;
+  evaluatedAt: number;
+  budgetIds: string[];
+  violations: BudgetViolation[];
+}
+
+export type WebhookEventType = "report.completed" | "report.failed";
+
+/** Standing webhook: notified for every report whose URL matches urlPattern */
+export interface Webhook {
+  id: string;
+  /** Exact URL, or a pattern where * matches any run of characters */
+  urlPattern: string;
+  callbackUrl: string;
+  /** HMAC signing secret; only returned when the webhook is created */
+  secret: string;
+  events: WebhookEventType[];
+  createdAt: number;
+}
+
+export interface WebhookEvent {
+  /** Same as the delivery id */
+  id: string;
+  type: WebhookEventType;
+  createdAt: number;
+  data: {
+    publicId: string;
+    url: string;
+    status: RecordStatus;
+    summary: ReportSummary | null;
+    budgetResult: BudgetResult | null;
+    error: string | null;
+  };
+}
+
+export interface WebhookDeliveryAttempt {
+  at: number;
+  /** HTTP status from the callback; null when the request itself failed */
+  responseStatus: number | null;
+  error: string | null;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  /** null for the one-off callbackUrl given when the report was created */
+  webhookId: string | null;
+  publicId: string;
+  callbackUrl: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt: number | null;
+  createdAt: number;
+}
+
+/** Delivery fields kept in KV list metadata so the log can be filtered without reading bodies */
+export interface WebhookDeliveryMetadata {
+  webhookId: string | null;
+  publicId: string;
+  type: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attemptCount: number;
+  nextAttemptAt: number | null;
+  createdAt: number;
+}
+
+export type ApiScope = (typeof API_SCOPES)[number];
+
+/** Issued API token; stored under the SHA-256 hash of the token, never the token itself */
+export interface ApiToken {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  createdAt: number;
+}
+
+/** Identity of an authenticated request */
+export interface AuthContext {
+  /** Token id, or "admin" for the ADMIN_API_TOKEN secret */
+  tokenId: string;
+  scopes: ApiScope[];
+}
+
+export type RateLimitReason = "client_minute" | "client_day" | "target_hour";
+
+export interface RateLimitWindow {
+  used: number;
+  limit: number;
+  /** Epoch ms when the window resets */
+  resetAt: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** The limit that was hit, when not allowed */
+  reason: RateLimitReason | null;
+  /** The window closest to its limit; reported in X-RateLimit-* headers */
+  window: RateLimitWindow;
+}
+
+/** One counter a report is counted against, as sent to the usage counter */
+export interface UsageCounterIncrement {
+  /** {window}:{subject} */
+  key: string;
+  limit: number;
+  /** Epoch ms when the window resets; the counter is dropped after that */
+  resetAt: number;
+  /** Amount added when every counter has room */
+  by: number;
+  /** Room the counter must have left; refused when count + need > limit */
+  need: number;
+}
+
+/** New counts in request order, or the first counter without room (index) and its count */
+export type UsageCounterResult =
+  | { allowed: true; counts: number[] }
+  | { allowed: false; index: number; used: number };
+
+/** consumeBatchQuota's decision; only the counted URLs were counted */
+export interface BatchQuotaDecision extends RateLimitDecision {
+  counted: string[];
+  /** URLs left out because their target re-audit window is full, with when it resets */
+  targetLimited: Array<{ url: string; resetAt: number }>;
+}
+
+export interface ClientUsage {
+  clientId: string;
+  minute: RateLimitWindow | null;
+  day: RateLimitWindow;
+}
+
+export interface BatchSkippedUrl {
+  url: string;
+  reason: string;
+}
+
+/** A batch of reports created together from a URL list or a sitemap */
+export interface BatchRecord {
+  id: string;
+  createdAt: number;
+  /** Client token that created the batch */
+  createdBy: string;
+  source: { type: "urls" } | { type: "sitemap"; sitemapUrl: string };
+  options: AuditOptions;
+  publicIds: string[];
+  skipped: BatchSkippedUrl[];
+}
+
+export interface ScoreRollupEntry {
+  average: number;
+  min: number;
+  max: number;
+  /** Pages that had a score for this category */
+  count: number;
+}
+
+/** Site-level category score rollup per form factor */
+export type ScoreRollup = Partial<
+  Record<FormFactor, Partial<Record<PageSpeedCategory, ScoreRollupEntry>>>
+>;
+
+export interface BatchProgress {
+  id: string;
+  createdAt: number;
+  source: BatchRecord["source"];
+  total: number;
+  counts: Record<RecordStatus, number>;
+  /** True once no record is pending or processing */
+  finished: boolean;
+  /** Set once finished, from the completed records' summaries */
+  rollup: ScoreRollup | null;
+  records: Array<{ publicId: string; url: string; status: string }>;
+  skipped: BatchSkippedUrl[];
+}
+
+export type MonitorFrequency = "hourly" | "daily" | "weekly";
+
+export type MonitorStatus = "active" | "paused";
+
+/** A URL re-audited on a schedule by the monitor cron */
+export interface Monitor {
+  id: string;
+  url: string;
+  frequency: MonitorFrequency;
+  options: AuditOptions;
+  status: MonitorStatus;
+  /** Pause after this many failed runs in a row */
+  maxConsecutiveFailures: number;
+  consecutiveFailures: number;
+  /** Set when the monitor was paused automatically */
+  pausedReason: string | null;
+  lastRunAt: number | null;
+  lastPublicId: string | null;
+  lastRunStatus: RecordStatus | null;
+  nextRunAt: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Monitor fields kept in KV list metadata so due monitors can be found without reading bodies */
+export interface MonitorMetadata {
+  status: MonitorStatus;
+  nextRunAt: number;
+}
+
 export type RecordStatus = "pending" | "processing" | "completed" | "failed";
 
+/** Run lease held by the one worker allowed to process a report */
+export interface ReportLeaseState {
+  id: string;
+  expiresAt: number;
+}
+
+/** What the report coordinator stores for a publicId */
+export interface ReportCoordinatorState {
+  publicId: string;
+  status: RecordStatus;
+  lease: ReportLeaseState | null;
+  /** Leases granted so far, i.e. runs started */
+  attempts: number;
+  updatedAt: number;
+}
+
+/**
+ * Progress pushed to /events subscribers; the stream ends after completed or failed
+ */
+export type ReportProgressEvent =
+  | { type: "status"; publicId: string; status: "pending" | "processing"; at: number }
+  | {
+      type: "form_factor";
+      publicId: string;
+      formFactor: FormFactor;
+      succeeded: boolean;
+      error: string | null;
+      at: number;
+    }
+  | {
+      type: "completed" | "failed";
+      publicId: string;
+      status: "completed" | "failed";
+      summary: ReportSummary | null;
+      error: string | null;
+      at: number;
+    };
+
+/** Progress events kept by the coordinator for replay; id is the SSE event id */
+export interface ReportProgressLog {
+  nextId: number;
+  entries: Array<{ id: number; event: ReportProgressEvent }>;
+}
+
+export type ReportLease =
+  | { granted: true; leaseId: string; expiresAt: number; attempt: number }
+  | { granted: false; reason: "finished" | "leased"; status: RecordStatus };
+
 export interface PageSpeedRecord {
   id: number;
   publicId: string;
@@ -22,6 +412,11 @@ export interface CreateRecordRequest {
   formFactor: string;
   status: RecordStatus;
   data: any;
+  /** One-off webhook notified when this report completes or fails */
+  callbackUrl?: string | null;
+  options?: AuditOptions;
+  /** Monitor that scheduled this report */
+  monitorId?: string | null;
 }
 
 export interface UpdateRecordRequest {
@@ -32,6 +427,24 @@ export interface UpdateRecordRequest {
   data: any;
   dataUrl: string;
   processingStartedAt?: number | null;
+  /** Set when the report completes; cleared on any other status change */
+  summary?: ReportSummary | null;
+  /** CrUX field data; set when the report completes */
+  fieldData?: ReportFieldData | null;
+  /** R2 result object per form factor; set when the report completes */
+  resultKeys?: ResultKeys | null;
+  /** Set when the report completes and at least one budget matched the URL */
+  budgetResult?: BudgetResult | null;
+  /** Per-form-factor attempt counts and errors from the PageSpeed API */
+  fetchOutcomes?: Partial<Record<FormFactor, FormFactorFetchOutcome>> | null;
+  error?: string | null;
+  errorClass?: PageSpeedErrorClass | null;
+}
+
+/** Message body on the report queue; the record itself holds url and options */
+export interface ReportJob {
+  publicId: string;
+  enqueuedAt: number;
 }
 
 export interface PageSpeedApiResponse {
@@ -39,12 +452,189 @@ export interface PageSpeedApiResponse {
   [key: string]: any;
 }
 
+export type PageSpeedErrorClass =
+  | "quota"
+  | "invalid_url"
+  | "unreachable"
+  | "timeout"
+  | "upstream_5xx"
+  | "unknown";
+
+/** Outcome of fetching one form factor, after retries */
+export interface PageSpeedFetchResult {
+  data: PageSpeedApiResponse | null;
+  error: string | null;
+  errorClass: PageSpeedErrorClass | null;
+  attempts: number;
+}
+
+/** PageSpeedFetchResult without the data, as stored on the record */
+export type FormFactorFetchOutcome = Omit<PageSpeedFetchResult, "data">;
+
+export interface ScheduledRunSummary {
+  cron: string;
+  scheduledTime: number;
+  startedAt: number;
+  finishedAt: number;
+  stuckRequests: {
+    found: number;
+    requeuedCount: number;
+    skippedCount: number;
+    failedCount: number;
+  } | null;
+  expiredRecords: { deletedCount: number; deletedBlobCount: number; daysOld: number } | null;
+  expiredResults: { deletedCount: number } | null;
+  webhookRetries: { attempted: number; delivered: number; failed: number } | null;
+  monitors: { due: number; started: number; skipped: number; failed: number } | null;
+  errors: string[];
+}
+
+/** A record removed (or, on a dry run, due for removal) by the age cleanup */
+export interface DeletedRecordEntry {
+  publicId: string;
+  url: string;
+  date: number;
+  /** R2 result objects deleted with the record */
+  objectKeys: string[];
+}
+
+export interface DeleteOldRecordsResult {
+  success: boolean;
+  dryRun: boolean;
+  daysOld: number;
+  deletedCount: number;
+  deletedBlobCount: number;
+  records: DeletedRecordEntry[];
+}
+
+export interface OrphanSweepResult {
+  /** False when the sweep only reported */
+  fixed: boolean;
+  scannedObjects: number;
+  scannedRecords: number;
+  /** R2 result objects no record points to; deleted when fixed */
+  orphanedObjects: string[];
+  /** Result objects records point to that are gone; the references are cleared when fixed */
+  missingBlobs: Array<{ publicId: string; key: string }>;
+}
+
+/** Record fields served by the RECORDS listing without reading record bodies */
+export interface RecordListEntry {
+  publicId: string;
+  url: string;
+  formFactor: string;
+  date: number;
+  status: RecordStatus;
+  processingStartedAt: number | null;
+}
+
+export interface RecordListPage {
+  records: RecordListEntry[];
+  /** Pass back as ?cursor= to fetch the next (older) page; null on the last page */
+  cursor: string | null;
+}
+
+export interface HistoryEntry {
+  publicId: string;
+  date: number;
+  status: RecordStatus;
+  options: AuditOptions;
+  scores: HeadlineScores | null;
+}
+
+export interface HistoryPage {
+  url: string;
+  entries: HistoryEntry[];
+  /** Pass back as ?cursor= to fetch the next (older) page; null on the last page */
+  cursor: string | null;
+}
+
+export interface ValueDelta {
+  base: number | null;
+  head: number | null;
+  /** head - base; null when either side is missing */
+  delta: number | null;
+}
+
+export interface AuditStateChange {
+  id: string;
+  title: string;
+  base: "pass" | "fail";
+  head: "pass" | "fail";
+}
+
+export interface FormFactorComparison {
+  categories: Partial<Record<PageSpeedCategory, ValueDelta>>;
+  metrics: Record<LabMetric, ValueDelta>;
+  audits: AuditStateChange[];
+}
+
+export interface ReportComparison {
+  base: { publicId: string; url: string };
+  head: { publicId: string; url: string };
+  formFactors: Partial<Record<FormFactor, FormFactorComparison>>;
+}
+
+export type ExportFormat = "csv" | "ndjson";
+
+export interface ExportFilter {
+  /** Inclusive bounds on the record date (epoch ms) */
+  from: number | null;
+  to: number | null;
+  /** Exact (canonical) URL */
+  url: string | null;
+  /** URL pattern where * matches any run of characters */
+  urlPattern: string | null;
+}
+
+/** One exported row: a completed report's summary for one form factor */
+export interface ExportRow {
+  publicId: string;
+  url: string;
+  /** ISO 8601 */
+  date: string;
+  formFactor: FormFactor;
+  locale: string | null;
+  categories: CategoryScores;
+  metrics: LabMetrics;
+  lighthouseVersion: string | null;
+}
+
+/** A failing Lighthouse audit listed on the report page */
+export interface ReportPageAudit {
+  id: string;
+  title: string;
+  displayValue: string | null;
+  score: number | null;
+  /** Estimated savings for opportunities */
+  savingsMs: number | null;
+}
+
 export interface RecordResponse {
   publicId: string;
   url: string;
+  formFactor: string;
+  options: AuditOptions;
   status: string;
+  /** R2 key of the results array on records written before resultKeys */
   dataUrl: string;
+  /** Full PSI responses; null unless requested with include=raw */
   data: any;
   /** Set when status is processing; used to detect stuck requests */
   processingStartedAt?: number | null;
+  summary: ReportSummary | null;
+  fieldData: ReportFieldData | null;
+  resultKeys: ResultKeys | null;
+  budgetResult: BudgetResult | null;
+  fetchOutcomes: Partial<Record<FormFactor, FormFactorFetchOutcome>> | null;
+  error: string | null;
+  errorClass: PageSpeedErrorClass | null;
+}
+
+export interface SummaryResponse {
+  publicId: string;
+  url: string;
+  status: string;
+  date: number;
+  summary: ReportSummary | null;
 }
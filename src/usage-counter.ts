@@ -0,0 +1,93 @@
+/**
+ * Usage counter Durable Object (a single instance, named USAGE_COUNTER_NAME)
+ *
+ * Rate-limit windows need read-then-increment, which KV cannot do: it is eventually
+ * consistent and accepts about one write per second per key. Every counter lives in this
+ * object's SQLite storage instead, so all the windows a request is counted against are
+ * checked and incremented in one transaction. Counters are dropped once their window resets.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type { UsageCounterIncrement, UsageCounterResult } from "./types";
+
+export class UsageCounter extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    ctx.storage.sql.exec(
+      `CREATE TABLE IF NOT EXISTS usage (key TEXT PRIMARY KEY, count INTEGER NOT NULL, reset_at INTEGER NOT NULL);
+       CREATE INDEX IF NOT EXISTS usage_reset_at ON usage (reset_at)`
+    );
+  }
+
+  private read(key: string, now: number): number {
+    const row = this.ctx.storage.sql
+      .exec<{ count: number }>("SELECT count FROM usage WHERE key = ? AND reset_at > ?", key, now)
+      .toArray()[0];
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Increments every counter when each has the room it needs; otherwise changes nothing
+   */
+  async consume(increments: UsageCounterIncrement[]): Promise<UsageCounterResult> {
+    const now = Date.now();
+    return this.ctx.storage.transactionSync(() => {
+      this.ctx.storage.sql.exec("DELETE FROM usage WHERE reset_at <= ?", now);
+
+      const used = increments.map((inc) => this.read(inc.key, now));
+      const index = increments.findIndex((inc, i) => used[i] + inc.need > inc.limit);
+      if (index !== -1) return { allowed: false, index, used: used[index] };
+
+      const counts = increments.map((inc, i) => {
+        const count = used[i] + inc.by;
+        this.ctx.storage.sql.exec(
+          "INSERT OR REPLACE INTO usage (key, count, reset_at) VALUES (?, ?, ?)",
+          inc.key,
+          count,
+          inc.resetAt
+        );
+        return count;
+      });
+      return { allowed: true, counts };
+    });
+  }
+
+  /**
+   * Takes back amounts counted by consume (never below 0); reset counters are left alone
+   */
+  async refund(refunds: Array<{ key: string; by: number }>): Promise<void> {
+    const now = Date.now();
+    this.ctx.storage.transactionSync(() => {
+      for (const { key, by } of refunds) {
+        this.ctx.storage.sql.exec(
+          "UPDATE usage SET count = max(0, count - ?) WHERE key = ? AND reset_at > ?",
+          by,
+          key,
+          now
+        );
+      }
+    });
+  }
+
+  /**
+   * Current counts (0 for absent or reset counters)
+   */
+  async counts(keys: string[]): Promise<number[]> {
+    const now = Date.now();
+    return keys.map((key) => this.read(key, now));
+  }
+
+  /**
+   * Live counters whose key starts with prefix
+   */
+  async list(prefix: string): Promise<Array<{ key: string; count: number }>> {
+    return this.ctx.storage.sql
+      .exec<{ key: string; count: number }>(
+        "SELECT key, count FROM usage WHERE substr(key, 1, ?) = ? AND reset_at > ?",
+        prefix.length,
+        prefix,
+        Date.now()
+      )
+      .toArray();
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Batch creation: every page has a pending record before the batch is returned
+ */
+
+import { createExecutionContext, env, waitOnExecutionContext } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_AUDIT_OPTIONS } from "../src/services/audit-options";
+import { createBatch, getBatchProgress } from "../src/services/batch";
+import { getStoredRecord } from "../src/services/storage";
+
+describe("createBatch", () => {
+  it("creates a pending record per page before queueing the jobs", async () => {
+    const ctx = createExecutionContext();
+    const urls = ["https://example.com/a", "https://example.com/b"];
+
+    const { batch, unsent } = await createBatch(
+      urls,
+      [],
+      { type: "urls" },
+      DEFAULT_AUDIT_OPTIONS,
+      "client",
+      env,
+      ctx
+    );
+
+    expect(unsent).toEqual([]);
+    expect(batch.publicIds).toHaveLength(2);
+    for (const [i, publicId] of batch.publicIds.entries()) {
+      expect(await getStoredRecord(publicId, env)).toMatchObject({
+        url: urls[i],
+        formFactor: "ALL",
+        status: "pending",
+      });
+    }
+
+    // Without a REPORT_QUEUE binding the jobs run in the background of the request
+    await waitOnExecutionContext(ctx);
+    const progress = await getBatchProgress(batch, env);
+    expect(progress.counts.completed).toBe(2);
+    expect(progress.finished).toBe(true);
+  });
+});
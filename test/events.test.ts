@@ -0,0 +1,74 @@
+/**
+ * /events reconnects once a report has finished
+ */
+
+import { createExecutionContext, env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import worker from "../src/index";
+import { DEFAULT_AUDIT_OPTIONS } from "../src/services/audit-options";
+import { createPendingRecord, updateRecord } from "../src/services/storage";
+
+function events(publicId: string, lastEventId?: string): Promise<Response> {
+  const headers: Record<string, string> = { Authorization: `Bearer ${env.ADMIN_API_TOKEN}` };
+  if (lastEventId) headers["Last-Event-ID"] = lastEventId;
+  return worker.fetch(
+    new Request(`https://worker.example/events?id=${publicId}`, { headers }),
+    env,
+    createExecutionContext()
+  );
+}
+
+async function createCompletedReport(): Promise<string> {
+  const { publicId } = await createPendingRecord(
+    {
+      requestUrl: "https://example.com/",
+      formFactor: "ALL",
+      status: "pending",
+      data: {},
+      options: DEFAULT_AUDIT_OPTIONS,
+    },
+    env
+  );
+  await updateRecord({ publicId, status: "processing", data: {}, dataUrl: "" }, env);
+  await updateRecord({ publicId, status: "completed", data: {}, dataUrl: "" }, env);
+  return publicId;
+}
+
+describe("events", () => {
+  it("replays the final event to a client that dropped before it", async () => {
+    const publicId = await createCompletedReport();
+    const coordinator = env.REPORT_COORDINATOR.get(env.REPORT_COORDINATOR.idFromName(publicId));
+    await coordinator.publish({ type: "status", publicId, status: "processing", at: Date.now() });
+    await coordinator.publish({
+      type: "completed",
+      publicId,
+      status: "completed",
+      summary: null,
+      error: null,
+      at: Date.now(),
+    });
+
+    const missed = await events(publicId, "1");
+    expect(missed.status).toBe(200);
+    const body = await missed.text();
+    expect(body).toContain("id: 2\n");
+    expect(body).toContain('"type":"completed"');
+    expect(body).not.toContain('"type":"status"');
+
+    expect((await events(publicId, "2")).status).toBe(204);
+  });
+
+  it("sends the record's final event when none was logged, then 204 on reconnect", async () => {
+    const publicId = await createCompletedReport();
+
+    const first = await events(publicId);
+    expect(first.status).toBe(200);
+    const id = /^id: (\d+)$/m.exec(await first.text())?.[1];
+    expect(id).toBeDefined();
+
+    const earlier = await events(publicId, "3");
+    expect(earlier.status).toBe(200);
+    expect(await earlier.text()).toContain('"type":"completed"');
+    expect((await events(publicId, id)).status).toBe(204);
+  });
+});
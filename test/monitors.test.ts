@@ -0,0 +1,107 @@
+/**
+ * Due monitors: unfinished previous runs and counting run outcomes once
+ */
+
+import { createExecutionContext, env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import type { Monitor, ReportJob } from "../src/types";
+import { REPORT_JOB_MAX_MS } from "../src/constants";
+import { DEFAULT_AUDIT_OPTIONS } from "../src/services/audit-options";
+import { recordMonitorOutcome } from "../src/services/monitors";
+import { getRecordStore } from "../src/services/record-store";
+import { getMonitor, getStoredRecord, putMonitor } from "../src/services/storage";
+import { handleDueMonitors } from "../src/handlers/due-monitors-handler";
+
+const NOW = Date.now();
+
+/** Collects sent jobs instead of running them */
+function queueEnv(): { env: Env; jobs: ReportJob[] } {
+  const jobs: ReportJob[] = [];
+  const REPORT_QUEUE = {
+    send: async (job: ReportJob) => {
+      jobs.push(job);
+    },
+  } as unknown as Queue<ReportJob>;
+  return { env: { ...env, REPORT_QUEUE }, jobs };
+}
+
+async function setUp(previousDate: number): Promise<{ monitor: Monitor; previousId: string }> {
+  const previousId = crypto.randomUUID();
+  await getRecordStore(env).create({
+    publicId: previousId,
+    url: "https://example.com/",
+    formFactor: "ALL",
+    date: previousDate,
+    status: "pending",
+    dataUrl: "",
+    processingStartedAt: null,
+    options: DEFAULT_AUDIT_OPTIONS,
+  });
+
+  const monitor: Monitor = {
+    id: crypto.randomUUID(),
+    url: "https://example.com/",
+    frequency: "hourly",
+    options: DEFAULT_AUDIT_OPTIONS,
+    status: "active",
+    maxConsecutiveFailures: 3,
+    consecutiveFailures: 0,
+    pausedReason: null,
+    lastRunAt: previousDate,
+    lastPublicId: previousId,
+    lastRunStatus: "pending",
+    nextRunAt: NOW - 1,
+    createdAt: previousDate,
+    updatedAt: previousDate,
+  };
+  await putMonitor(monitor, env);
+  return { monitor, previousId };
+}
+
+describe("handleDueMonitors", () => {
+  it("fails a previous run that outlived every queue attempt and starts a new one", async () => {
+    const { monitor, previousId } = await setUp(NOW - REPORT_JOB_MAX_MS - 60_000);
+    const queue = queueEnv();
+
+    const result = await handleDueMonitors(queue.env, createExecutionContext());
+
+    expect(result).toMatchObject({ started: 1, skipped: 0 });
+    expect(await getStoredRecord(previousId, env)).toMatchObject({ status: "failed" });
+    const updated = await getMonitor(monitor.id, env);
+    expect(updated).toMatchObject({ consecutiveFailures: 1, lastRunStatus: "pending" });
+    expect(updated?.lastPublicId).toBe(queue.jobs[0].publicId);
+
+    // A late outcome for the replaced run changes nothing
+    await recordMonitorOutcome(monitor.id, previousId, "completed", env);
+    expect(await getMonitor(monitor.id, env)).toMatchObject({ consecutiveFailures: 1 });
+  });
+
+  it("waits for a previous run that may still be retrying", async () => {
+    const { monitor, previousId } = await setUp(NOW - REPORT_JOB_MAX_MS + 60_000);
+    const queue = queueEnv();
+
+    const result = await handleDueMonitors(queue.env, createExecutionContext());
+
+    expect(result).toMatchObject({ started: 0, skipped: 1 });
+    expect(queue.jobs).toEqual([]);
+    expect(await getStoredRecord(previousId, env)).toMatchObject({ status: "pending" });
+    expect(await getMonitor(monitor.id, env)).toMatchObject({
+      consecutiveFailures: 0,
+      lastPublicId: previousId,
+    });
+  });
+});
+
+describe("recordMonitorOutcome", () => {
+  it("counts the latest run's outcome once", async () => {
+    const { monitor, previousId } = await setUp(NOW);
+
+    await recordMonitorOutcome(monitor.id, previousId, "failed", env);
+    await recordMonitorOutcome(monitor.id, previousId, "failed", env);
+
+    expect(await getMonitor(monitor.id, env)).toMatchObject({
+      consecutiveFailures: 1,
+      lastRunStatus: "failed",
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * RecordStore contract, run against every backend that needs no external setup
+ */
+
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import type { RecordStore } from "../src/services/record-store";
+import type { StoredRecord } from "../src/services/storage";
+import { createMemoryRecordStore } from "../src/services/record-store-memory";
+import { createKvRecordStore } from "../src/services/record-store-kv";
+import { DEFAULT_AUDIT_OPTIONS, formFactorLabel } from "../src/services/audit-options";
+
+const MINUTE = 60_000;
+const NOW = Date.UTC(2026, 0, 15, 12);
+
+function makeRecord(publicId: string, overrides: Partial<StoredRecord> = {}): StoredRecord {
+  return {
+    publicId,
+    url: "https://example.com/",
+    formFactor: formFactorLabel(DEFAULT_AUDIT_OPTIONS),
+    date: NOW,
+    status: "completed",
+    dataUrl: "",
+    processingStartedAt: null,
+    ...overrides,
+  };
+}
+
+/** Follows listPage cursors to the end and returns every publicId, in order */
+async function listAllPages(store: RecordStore, limit: number): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < 20; page++) {
+    const result = await store.listPage({ limit, cursor });
+    expect(result.records.length).toBeLessThanOrEqual(limit);
+    ids.push(...result.records.map((r) => r.publicId));
+    if (!result.cursor) return ids;
+    cursor = result.cursor;
+  }
+  throw new Error("listPage never returned a null cursor");
+}
+
+describe.each([
+  { backend: "memory", create: () => createMemoryRecordStore() },
+  { backend: "kv", create: () => createKvRecordStore(env.KV) },
+])("$backend record store", ({ create }) => {
+  let store: RecordStore;
+
+  beforeEach(() => {
+    store = create();
+  });
+
+  it("gets a created record and updates only existing ones", async () => {
+    await store.create(makeRecord("a", { status: "pending" }));
+
+    expect(await store.get("a")).toMatchObject({ publicId: "a", status: "pending" });
+    expect(await store.get("missing")).toBeNull();
+
+    expect(await store.update(makeRecord("a", { status: "completed" }))).toBe(true);
+    expect(await store.get("a")).toMatchObject({ status: "completed" });
+    expect(await store.update(makeRecord("missing"))).toBe(false);
+    expect(await store.get("missing")).toBeNull();
+  });
+
+  it("lists newest first and filters by status, url and date", async () => {
+    await store.create(makeRecord("old", { date: NOW - 2 * MINUTE }));
+    await store.create(makeRecord("mid", { date: NOW - MINUTE, status: "failed" }));
+    await store.create(makeRecord("new", { date: NOW, url: "https://other.example/" }));
+
+    const ids = async (filter: Parameters<RecordStore["list"]>[0]) =>
+      (await store.list(filter)).map((r) => r.publicId);
+
+    expect(await ids({})).toEqual(["new", "mid", "old"]);
+    expect(await ids({ status: "failed" })).toEqual(["mid"]);
+    expect(await ids({ url: "https://example.com/" })).toEqual(["mid", "old"]);
+    expect(await ids({ from: NOW - MINUTE })).toEqual(["new", "mid"]);
+    expect(await ids({ to: NOW - MINUTE })).toEqual(["mid", "old"]);
+  });
+
+  it("pages through every record once with listPage cursors", async () => {
+    const created: string[] = [];
+    for (let i = 0; i < 7; i++) {
+      const publicId = `r${i}`;
+      await store.create(makeRecord(publicId, { date: NOW - i * MINUTE }));
+      created.push(publicId);
+    }
+
+    expect(await listAllPages(store, 3)).toEqual(created);
+    expect(await listAllPages(store, 7)).toEqual(created);
+
+    const last = await store.listPage({ limit: 7 });
+    expect(last.cursor).toBeNull();
+  });
+
+  it("applies status and urlPrefix filters to listPage", async () => {
+    await store.create(makeRecord("a", { url: "https://example.com/a", status: "failed" }));
+    await store.create(makeRecord("b", { url: "https://example.com/b", date: NOW - MINUTE }));
+    await store.create(makeRecord("c", { url: "https://other.example/", date: NOW - 2 * MINUTE }));
+
+    const failed = await store.listPage({ limit: 10, status: "failed" });
+    expect(failed.records.map((r) => r.publicId)).toEqual(["a"]);
+
+    const prefixed = await store.listPage({ limit: 10, urlPrefix: "https://example.com/" });
+    expect(prefixed.records.map((r) => r.publicId)).toEqual(["a", "b"]);
+    expect(prefixed.records[0]).toMatchObject({ url: "https://example.com/a", status: "failed" });
+  });
+
+  it("deletes only records older than the cutoff", async () => {
+    await store.create(makeRecord("old", { date: NOW - 2 * MINUTE }));
+    await store.create(makeRecord("edge", { date: NOW - MINUTE }));
+    await store.create(makeRecord("new", { date: NOW }));
+
+    const deleted = await store.deleteOlderThan(NOW - MINUTE);
+
+    expect(deleted.map((r) => r.publicId)).toEqual(["old"]);
+    expect(await store.get("old")).toBeNull();
+    expect((await store.list()).map((r) => r.publicId)).toEqual(["new", "edge"]);
+    expect(await store.getLatestByUrl("https://example.com/", DEFAULT_AUDIT_OPTIONS)).toMatchObject({
+      publicId: "new",
+    });
+  });
+
+  it("finds records processing since before the cutoff", async () => {
+    await store.create(
+      makeRecord("stuck", { status: "processing", processingStartedAt: NOW - 10 * MINUTE })
+    );
+    await store.create(
+      makeRecord("running", { status: "processing", processingStartedAt: NOW - MINUTE })
+    );
+    await store.create(makeRecord("pending", { status: "pending" }));
+    await store.create(makeRecord("done", { processingStartedAt: NOW - 10 * MINUTE }));
+
+    const stuck = await store.findStuck(NOW - 5 * MINUTE);
+
+    expect(stuck.map((r) => r.publicId)).toEqual(["stuck"]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Queue consumer path: run lease, report run against the fake PageSpeed client, retries
+ */
+
+import { env } from "cloudflare:test";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_AUDIT_OPTIONS, formFactorLabel } from "../src/services/audit-options";
+import { acquireReportLease, releaseReportLease } from "../src/services/report-lease";
+import { processReportJob } from "../src/services/report-queue";
+import { createPendingRecord, getStoredRecord } from "../src/services/storage";
+
+async function createPending(url: string = "https://example.com/"): Promise<string> {
+  const { publicId } = await createPendingRecord(
+    {
+      requestUrl: url,
+      formFactor: formFactorLabel(DEFAULT_AUDIT_OPTIONS),
+      status: "pending",
+      data: {},
+      options: DEFAULT_AUDIT_OPTIONS,
+    },
+    env
+  );
+  return publicId;
+}
+
+/**
+ * Waits for a run under fake timers, advancing them so retry backoffs pass at once
+ */
+async function settle<T>(run: Promise<T>): Promise<T> {
+  let settled = false;
+  run.then(
+    () => (settled = true),
+    () => (settled = true)
+  );
+  while (!settled) await vi.advanceTimersByTimeAsync(1_000);
+  return run;
+}
+
+describe("processReportJob", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs a pending report to completion and stores a result per form factor", async () => {
+    const publicId = await createPending();
+
+    expect(await processReportJob({ publicId, enqueuedAt: Date.now() }, env, false)).toBe("done");
+
+    const record = await getStoredRecord(publicId, env);
+    expect(record?.status).toBe("completed");
+    expect(Object.keys(record?.resultKeys ?? {}).sort()).toEqual(["DESKTOP", "MOBILE"]);
+    expect(record?.summary?.MOBILE?.categories.PERFORMANCE).toEqual(expect.any(Number));
+    for (const key of Object.values(record!.resultKeys!)) {
+      const object = await env.RESULTS_BUCKET.get(key);
+      expect(object).not.toBeNull();
+      await object?.body.cancel();
+    }
+  });
+
+  it("does not run a finished report again", async () => {
+    const publicId = await createPending();
+    await processReportJob({ publicId, enqueuedAt: Date.now() }, env, false);
+    const first = await getStoredRecord(publicId, env);
+
+    expect(await processReportJob({ publicId, enqueuedAt: Date.now() }, env, false)).toBe("done");
+    expect(await getStoredRecord(publicId, env)).toEqual(first);
+  });
+
+  it("leaves a retryable failure pending until the final attempt", async () => {
+    const failing = { ...env, PAGESPEED_FAKE_FAILURE: "server_error" };
+    const publicId = await createPending();
+    // Only setTimeout, so fetchPageSpeedData's retry backoff is skipped but Date.now() is real
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+
+    expect(
+      await settle(processReportJob({ publicId, enqueuedAt: Date.now() }, failing, false))
+    ).toBe("retry");
+    expect(await getStoredRecord(publicId, env)).toMatchObject({
+      status: "pending",
+      errorClass: "upstream_5xx",
+    });
+
+    expect(
+      await settle(processReportJob({ publicId, enqueuedAt: Date.now() }, failing, true))
+    ).toBe("done");
+    expect(await getStoredRecord(publicId, env)).toMatchObject({ status: "failed" });
+  });
+
+  it("skips a report whose run lease is held elsewhere", async () => {
+    const publicId = await createPending();
+    const record = (await getStoredRecord(publicId, env))!;
+    const held = await acquireReportLease(record, env);
+    expect(held.granted).toBe(true);
+
+    expect(await processReportJob({ publicId, enqueuedAt: Date.now() }, env, false)).toBe("done");
+    expect(await getStoredRecord(publicId, env)).toMatchObject({ status: "pending" });
+  });
+});
+
+describe("report lease", () => {
+  it("is granted to one run at a time and refused once the report finished", async () => {
+    const publicId = await createPending();
+    const record = (await getStoredRecord(publicId, env))!;
+
+    const first = await acquireReportLease(record, env);
+    expect(first).toMatchObject({ granted: true, attempt: 1 });
+    expect(await acquireReportLease(record, env)).toMatchObject({ granted: false, reason: "leased" });
+    if (!first.granted) return;
+
+    expect(await releaseReportLease(publicId, "another-lease", "completed", env)).toBe(false);
+    expect(await releaseReportLease(publicId, first.leaseId, "pending", env)).toBe(true);
+
+    const second = await acquireReportLease(record, env);
+    expect(second).toMatchObject({ granted: true, attempt: 2 });
+    if (!second.granted) return;
+    expect(await releaseReportLease(publicId, second.leaseId, "completed", env)).toBe(true);
+
+    expect(await acquireReportLease(record, env)).toMatchObject({
+      granted: false,
+      reason: "finished",
+      status: "completed",
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Report page access: bearer tokens for API clients, signed share links for browsers
+ */
+
+import { createExecutionContext, env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import worker from "../src/index";
+import { REPORT_SHARE_TTL_SECONDS } from "../src/constants";
+import { DEFAULT_AUDIT_OPTIONS } from "../src/services/audit-options";
+import { createShareToken } from "../src/services/report-share";
+import { createPendingRecord } from "../src/services/storage";
+
+function get(path: string, headers: Record<string, string> = {}): Promise<Response> {
+  return worker.fetch(
+    new Request(`https://worker.example${path}`, { headers }),
+    env,
+    createExecutionContext()
+  );
+}
+
+const ADMIN = { Authorization: `Bearer ${env.ADMIN_API_TOKEN}` };
+
+async function createReport(): Promise<string> {
+  const { publicId } = await createPendingRecord(
+    {
+      requestUrl: "https://example.com/",
+      formFactor: "ALL",
+      status: "pending",
+      data: {},
+      options: DEFAULT_AUDIT_OPTIONS,
+    },
+    env
+  );
+  return publicId;
+}
+
+describe("report page", () => {
+  it("needs a token or a share link", async () => {
+    const publicId = await createReport();
+
+    expect((await get(`/report?id=${publicId}`)).status).toBe(401);
+    expect((await get(`/report?id=${publicId}`, ADMIN)).status).toBe(200);
+  });
+
+  it("opens from a share link minted by /report/share", async () => {
+    const publicId = await createReport();
+
+    const shared = await get(`/report/share?id=${publicId}`, ADMIN);
+    expect(shared.status).toBe(200);
+    const { url, expiresAt } = await shared.json<{ url: string; expiresAt: number }>();
+    expect(expiresAt).toBeGreaterThan(Date.now() / 1000);
+
+    const page = await get(new URL(url).pathname + new URL(url).search);
+    expect(page.status).toBe(200);
+    expect(page.headers.get("Content-Type")).toContain("text/html");
+  });
+
+  it("refuses share links that are forged, for another report or expired", async () => {
+    const publicId = await createReport();
+    const other = await createReport();
+    const { token } = await createShareToken(publicId, env.REPORT_SHARE_SECRET);
+    const expired = await createShareToken(
+      publicId,
+      env.REPORT_SHARE_SECRET,
+      Date.now() - (REPORT_SHARE_TTL_SECONDS + 60) * 1000
+    );
+    const forged = await createShareToken(publicId, "not-the-secret");
+
+    for (const [id, share] of [
+      [other, token],
+      [publicId, expired.token],
+      [publicId, forged.token],
+      [publicId, "garbage"],
+    ]) {
+      const response = await get(`/report?id=${id}&share=${encodeURIComponent(share)}`);
+      expect(response.status).toBe(401);
+    }
+  });
+
+  it("mints share links only for report:read clients and existing reports", async () => {
+    expect((await get(`/report/share?id=${crypto.randomUUID()}`)).status).toBe(401);
+    expect((await get(`/report/share?id=${crypto.randomUUID()}`, ADMIN)).status).toBe(404);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Sitemap fetching: size cap on streamed and decompressed bodies
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { SITEMAP_MAX_BYTES } from "../src/constants";
+import { collectSitemapUrls } from "../src/services/sitemap";
+
+/** A body with no length that never ends; records whether it was cancelled */
+function endlessBody(): { stream: ReadableStream<Uint8Array>; cancelled: () => boolean } {
+  const chunk = new Uint8Array(64 * 1024).fill(0x20);
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      controller.enqueue(chunk);
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  return { stream, cancelled: () => cancelled };
+}
+
+describe("collectSitemapUrls", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("collects page URLs", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(
+        "<urlset><url><loc>https://example.com/a</loc></url><url><loc>https://example.com/b</loc></url></urlset>"
+      )
+    );
+
+    const result = await collectSitemapUrls("https://example.com/sitemap.xml", 10);
+
+    expect(result.urls).toEqual(["https://example.com/a", "https://example.com/b"]);
+  });
+
+  it("stops reading a body without a length once it passes the cap", async () => {
+    const body = endlessBody();
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(body.stream));
+
+    await expect(collectSitemapUrls("https://example.com/sitemap.xml", 10)).rejects.toThrow(
+      `larger than ${SITEMAP_MAX_BYTES} bytes`
+    );
+    expect(body.cancelled()).toBe(true);
+  });
+
+  it("applies the cap to decompressed .gz sitemaps", async () => {
+    // Compresses to a few KB: small on the wire, over the cap once decompressed
+    const chunk = new Uint8Array(1024 * 1024).fill(0x20);
+    let remaining = SITEMAP_MAX_BYTES / chunk.length + 1;
+    const plain = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (remaining-- > 0) controller.enqueue(chunk);
+        else controller.close();
+      },
+    });
+    const gzipped = await new Response(plain.pipeThrough(new CompressionStream("gzip"))).arrayBuffer();
+    expect(gzipped.byteLength).toBeLessThan(SITEMAP_MAX_BYTES / 100);
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(gzipped));
+
+    await expect(collectSitemapUrls("https://example.com/sitemap.xml.gz", 10)).rejects.toThrow(
+      `larger than ${SITEMAP_MAX_BYTES} bytes`
+    );
+  });
+});
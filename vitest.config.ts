@@ -0,0 +1,34 @@
+import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
+
+/**
+ * Bindings are declared here rather than read from wrangler.toml, whose migration history
+ * starts by deleting a class local runtimes never saw. Tests never leave the machine:
+ * local KV and R2, in-memory records and fixture PageSpeed responses. There is no
+ * REPORT_QUEUE, so enqueued jobs run in the background of the enqueueing request.
+ */
+export default defineWorkersConfig({
+  test: {
+    poolOptions: {
+      workers: {
+        main: "./src/index.ts",
+        singleWorker: true,
+        miniflare: {
+          compatibilityDate: "2025-10-08",
+          kvNamespaces: ["KV"],
+          r2Buckets: ["RESULTS_BUCKET"],
+          durableObjects: {
+            REPORT_COORDINATOR: { className: "PageSpeedDurableObject", useSQLite: true },
+            USAGE_COUNTER: { className: "UsageCounter", useSQLite: true },
+          },
+          bindings: {
+            RECORD_STORE: "memory",
+            PAGESPEED_CLIENT: "fake",
+            PAGESPEED_INSIGHTS_API: "test-key",
+            ADMIN_API_TOKEN: "test-admin-token",
+            REPORT_SHARE_SECRET: "test-share-secret",
+          },
+        },
+      },
+    },
+  },
+});
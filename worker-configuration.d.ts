@@ -6,9 +6,26 @@ declare namespace Cloudflare {
 		mainModule: typeof import("./src/index");
 	}
 	interface Env {
+		RATE_LIMIT_REPORTS_PER_MINUTE: "10";
+		RATE_LIMIT_REPORTS_PER_DAY: "500";
+		RATE_LIMIT_TARGET_REAUDITS_PER_HOUR: "6";
+		TRACKING_PARAMS: "utm_*,gclid,dclid,fbclid,msclkid,mc_cid,mc_eid,_ga,_gl,yclid";
+		RECORD_STORE: "kv";
+		PAGESPEED_CLIENT: "live";
+		PAGESPEED_API_BASE_URL?: string;
+		PAGESPEED_FAKE_LATENCY_MS?: string;
+		PAGESPEED_FAKE_FAILURE?: string;
+		PAGESPEED_FAKE_FAIL_ATTEMPTS?: string;
 		PAGESPEED_INSIGHTS_API: string;
+		WEBHOOK_SIGNING_SECRET: string;
+		ADMIN_API_TOKEN: string;
+		REPORT_SHARE_SECRET: string;
 		KV: KVNamespace;
 		RESULTS_BUCKET: R2Bucket;
+		REPORT_QUEUE: Queue;
+		REPORT_COORDINATOR: DurableObjectNamespace<import("./src/index").PageSpeedDurableObject>;
+		USAGE_COUNTER: DurableObjectNamespace<import("./src/index").UsageCounter>;
+		DB?: D1Database;
 	}
 }
 interface Env extends Cloudflare.Env {}